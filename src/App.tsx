@@ -6,7 +6,7 @@ import { Route, BrowserRouter as Router, Routes } from "react-router-dom"
 import { DashCommand } from "./components/DashCommand"
 import ErrorBoundary from "./components/ErrorBoundary"
 import Footer from "./components/Footer"
-import Header, { RefreshToast } from "./components/Header"
+import Header, { RefreshToast, StaleDataBanner } from "./components/Header"
 import { useBackground } from "./hooks/use-background"
 import { useTheme } from "./hooks/use-theme"
 import { InjectContext } from "./lib/inject"
@@ -25,7 +25,7 @@ const RouteChecker: React.FC = () => {
 const MainApp: React.FC = () => {
   const { data: settingData, error } = useQuery({
     queryKey: ["setting"],
-    queryFn: () => fetchSetting(),
+    queryFn: ({ signal }) => fetchSetting(signal),
     refetchOnMount: true,
     refetchOnWindowFocus: true,
   })
@@ -53,7 +53,7 @@ const MainApp: React.FC = () => {
   }, [forceTheme])
 
   if (error) {
-    return <ErrorPage code={500} message={error.message} />
+    return <ErrorPage code={500} error={error} />
   }
 
   if (!settingData) {
@@ -94,11 +94,12 @@ const MainApp: React.FC = () => {
       >
         <main className="flex z-20 min-h-[calc(100vh-calc(var(--spacing)*16))] flex-1 flex-col gap-4 p-4 md:p-10 md:pt-8">
           <RefreshToast />
+          <StaleDataBanner />
           <Header />
           <DashCommand />
           <Routes>
             <Route path="/" element={<Server />} />
-            <Route path="/server/:id" element={<ServerDetail />} />
+            <Route path="/server/:uuid" element={<ServerDetail />} />
             <Route path="/error" element={<ErrorPage />} />
             <Route path="*" element={<NotFound />} />
           </Routes>
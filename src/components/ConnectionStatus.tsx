@@ -0,0 +1,87 @@
+import { Button } from "@/components/ui/button"
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover"
+import { useRPC2 } from "@/hooks/use-rpc2"
+import { cn, formatRelativeTime } from "@/lib/utils"
+import { ArrowPathIcon } from "@heroicons/react/20/solid"
+import { useEffect, useState } from "react"
+import { useTranslation } from "react-i18next"
+
+export function ConnectionStatus() {
+  const { t } = useTranslation()
+  const { client, connectionState, isConnected, latency, reconnectAttempts, error, reconnect } = useRPC2()
+  const [, setTick] = useState(0)
+  const [reconnecting, setReconnecting] = useState(false)
+
+  const customBackgroundImage = (window.CustomBackgroundImage as string) !== "" ? window.CustomBackgroundImage : undefined
+
+  // 每秒刷新一次，更新“最近更新”的相对时间
+  useEffect(() => {
+    const timer = setInterval(() => setTick((tick) => tick + 1), 1000)
+    return () => clearInterval(timer)
+  }, [])
+
+  const lastSuccess = client.lastSuccess
+  const pending = connectionState === "connecting" || connectionState === "reconnecting"
+  // 未连上 WebSocket 时调用都走 HTTP 回退
+  const stateLabel = pending ? t(`connection.${connectionState}`) : t(isConnected ? "connection.websocket" : "connection.http")
+
+  const handleReconnect = async () => {
+    setReconnecting(true)
+    try {
+      await reconnect()
+    } catch (err) {
+      console.warn("手动重连失败:", err)
+    } finally {
+      setReconnecting(false)
+    }
+  }
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button
+          variant="outline"
+          size="sm"
+          className={cn("rounded-full px-2.5 gap-1.5 bg-white dark:bg-black", {
+            "bg-white/70 dark:bg-black/70": customBackgroundImage,
+          })}
+          title={t("connection.title")}
+        >
+          <span
+            className={cn("h-2 w-2 rounded-full", {
+              "bg-green-500": isConnected,
+              "bg-yellow-500 animate-pulse": pending,
+              "bg-red-500": !isConnected && !pending,
+            })}
+          ></span>
+          <span className="text-xs font-medium">{isConnected && latency !== null ? `${latency}ms` : stateLabel}</span>
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-64 p-3 text-xs">
+        <p className="text-sm font-semibold mb-2">{t("connection.title")}</p>
+        <dl className="grid grid-cols-[auto_1fr] gap-x-3 gap-y-1.5">
+          <dt className="text-muted-foreground">{t("connection.transport")}</dt>
+          <dd className="text-right font-medium">{stateLabel}</dd>
+          <dt className="text-muted-foreground">{t("connection.latency")}</dt>
+          <dd className="text-right font-medium">{latency !== null ? `${latency}ms` : "-"}</dd>
+          <dt className="text-muted-foreground">{t("connection.reconnectAttempts")}</dt>
+          <dd className="text-right font-medium">{reconnectAttempts}</dd>
+          <dt className="text-muted-foreground">{t("connection.lastUpdate")}</dt>
+          <dd className="text-right font-medium">
+            {lastSuccess ? t("connection.ago", { time: formatRelativeTime(lastSuccess.at) }) : t("connection.never")}
+          </dd>
+          {error && (
+            <>
+              <dt className="text-muted-foreground">{t("connection.lastError")}</dt>
+              <dd className="text-right font-medium text-red-500 break-all">{error}</dd>
+            </>
+          )}
+        </dl>
+        <Button variant="outline" size="sm" className="w-full mt-3 gap-1.5" disabled={reconnecting} onClick={handleReconnect}>
+          <ArrowPathIcon className={cn("size-3.5", { "animate-spin": reconnecting })} />
+          {t("connection.reconnect")}
+        </Button>
+      </PopoverContent>
+    </Popover>
+  )
+}
@@ -2,11 +2,12 @@
 
 import { CommandDialog, CommandEmpty, CommandGroup, CommandInput, CommandItem, CommandList, CommandSeparator } from "@/components/ui/command"
 import { useCommand } from "@/hooks/use-command"
+import { useServerList } from "@/hooks/use-fleet"
 import { useTheme } from "@/hooks/use-theme"
 import { useWebSocketContext } from "@/hooks/use-websocket-context"
-import { formatNezhaInfo } from "@/lib/utils"
-import { NezhaWebsocketResponse } from "@/types/nezha-api"
-import { Home, Moon, Sun, SunMoon } from "lucide-react"
+import { fleetStore } from "@/lib/fleet-store"
+import { serverPath } from "@/lib/utils"
+import { Home, Moon, RefreshCw, Sun, SunMoon } from "lucide-react"
 import { useEffect, useState } from "react"
 import { useTranslation } from "react-i18next"
 import { useNavigate } from "react-router-dom"
@@ -18,9 +19,8 @@ export function DashCommand() {
   const { t } = useTranslation()
   const { setTheme } = useTheme()
 
-  const { lastMessage, connected } = useWebSocketContext()
-
-  const nezhaWsData = lastMessage ? (JSON.parse(lastMessage.data) as NezhaWebsocketResponse) : null
+  const { connected, refreshMetadata } = useWebSocketContext()
+  const servers = useServerList()
 
   useEffect(() => {
     const down = (e: KeyboardEvent) => {
@@ -34,7 +34,7 @@ export function DashCommand() {
     return () => document.removeEventListener("keydown", down)
   }, [toggleCommand])
 
-  if (!connected || !nezhaWsData) return null
+  if (!connected && !fleetStore.ready) return null
 
   const shortcuts = [
     {
@@ -61,6 +61,12 @@ export function DashCommand() {
       label: t("ToggleSystemMode"),
       action: () => setTheme("system"),
     },
+    {
+      keywords: ["refresh", "metadata", "nodes"],
+      icon: <RefreshCw />,
+      label: t("RefreshMetadata"),
+      action: refreshMetadata,
+    },
   ].map((item) => ({
     ...item,
     value: `${item.keywords.join(" ")} ${item.label}`,
@@ -72,19 +78,19 @@ export function DashCommand() {
         <CommandInput placeholder={t("TypeCommand")} value={search} onValueChange={setSearch} />
         <CommandList className="border-t">
           <CommandEmpty>{t("NoResults")}</CommandEmpty>
-          {nezhaWsData.servers && nezhaWsData.servers.length > 0 && (
+          {servers.length > 0 && (
             <>
               <CommandGroup heading={t("Servers")}>
-                {nezhaWsData.servers.map((server) => (
+                {servers.map(({ server, online }) => (
                   <CommandItem
                     key={server.id}
                     value={server.name}
                     onSelect={() => {
-                      navigate(`/server/${server.id}`)
+                      navigate(serverPath(server))
                       closeCommand()
                     }}
                   >
-                    {formatNezhaInfo(nezhaWsData.now, server).online ? (
+                    {online ? (
                       <span className="h-2 w-2 shrink-0 rounded-full bg-green-500 self-center" />
                     ) : (
                       <span className="h-2 w-2 shrink-0 rounded-full bg-red-500 self-center" />
@@ -14,6 +14,7 @@ import { useEffect, useState } from "react"
 import { useTranslation } from "react-i18next"
 import { useNavigate } from "react-router-dom"
 
+import { ConnectionStatus } from "./ConnectionStatus"
 import { LanguageSwitcher } from "./LanguageSwitcher"
 import { SearchButton } from "./SearchButton"
 import { LoadingSpinner } from "./loading/Loader"
@@ -26,7 +27,7 @@ function Header() {
 
   const { data: settingData, isLoading } = useQuery({
     queryKey: ["setting"],
-    queryFn: () => fetchSetting(),
+    queryFn: ({ signal }) => fetchSetting(signal),
     refetchOnMount: true,
     refetchOnWindowFocus: true,
   })
@@ -104,6 +105,7 @@ function Header() {
             <Links />
             <DashboardLink />
           </div>
+          <ConnectionStatus />
           <SearchButton />
           <LanguageSwitcher />
           <ModeToggle />
@@ -131,11 +133,6 @@ function Header() {
             >
               {/* {connected ? onlineCount : <Loader visible={true} />} */}
               {/* <p className="text-muted-foreground">{connected ? t("online") : t("offline")}</p> */}
-              {/* <span
-              className={cn("h-2 w-2 rounded-full bg-green-500", {
-                "bg-red-500": !connected,
-              })}
-            ></span> */}
               <LogIn />
             </Button>
           </a>
@@ -217,6 +214,44 @@ export function RefreshToast() {
   )
 }
 
+export function StaleDataBanner() {
+  const { t } = useTranslation()
+  const { stale, lastSuccessAt, lastError, consecutiveFailures } = useWebSocketContext()
+  const [now, setNow] = useState(() => Date.now())
+
+  // 显示期间每秒更新过期时长
+  useEffect(() => {
+    if (!stale) return
+    setNow(Date.now())
+    const timer = setInterval(() => setNow(Date.now()), 1000)
+    return () => clearInterval(timer)
+  }, [stale])
+
+  const seconds = lastSuccessAt ? Math.max(0, Math.floor((now - lastSuccessAt) / 1000)) : 0
+
+  return (
+    <AnimatePresence>
+      {stale && (
+        <m.div
+          key="stale-data"
+          initial={{ opacity: 0, filter: "blur(10px)", scale: 0.8 }}
+          animate={{ opacity: 1, filter: "blur(0px)", scale: 1 }}
+          exit={{ opacity: 0, filter: "blur(10px)", scale: 0.8 }}
+          transition={{ type: "spring", duration: 0.8 }}
+          title={lastError ?? undefined}
+          className="fixed left-1/2 -translate-x-1/2 bottom-8 z-[999] flex items-center gap-2 rounded-[50px] border-[1px] border-solid bg-white px-3 py-1.5 shadow-xl shadow-black/5 dark:border-stone-700 dark:bg-stone-800 dark:shadow-none"
+        >
+          <span className="h-2 w-2 shrink-0 rounded-full bg-amber-500 animate-pulse"></span>
+          <p className="text-[12.5px] font-medium">{lastSuccessAt ? t("staleData.message", { seconds }) : t("staleData.unavailable")}</p>
+          {consecutiveFailures > 0 && (
+            <p className="text-[11px] text-muted-foreground">{t("staleData.failures", { failures: consecutiveFailures })}</p>
+          )}
+        </m.div>
+      )}
+    </AnimatePresence>
+  )
+}
+
 function DashboardLink() {
   // 登录交给Komari后台处理
   // const { t } = useTranslation()
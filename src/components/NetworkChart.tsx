@@ -77,12 +77,12 @@ const calculatePacketLoss = (delays: number[]): number[] => {
   return packetLossRates.map((rate) => Number(rate.toFixed(2)))
 }
 
-export function NetworkChart({ server_id, show }: { server_id: number; show: boolean }) {
+export function NetworkChart({ server_uuid, show }: { server_uuid: string; show: boolean }) {
   const { t } = useTranslation()
 
   const { data: monitorData } = useQuery({
-    queryKey: ["monitor", server_id],
-    queryFn: () => fetchMonitor(server_id),
+    queryKey: ["monitor", server_uuid],
+    queryFn: ({ signal }) => fetchMonitor(server_uuid, signal),
     enabled: show,
     refetchOnMount: true,
     refetchOnWindowFocus: true,
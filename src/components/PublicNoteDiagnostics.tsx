@@ -0,0 +1,38 @@
+import { PublicNoteWarning } from "@/lib/utils"
+import { TriangleAlert } from "lucide-react"
+import { useTranslation } from "react-i18next"
+
+import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "./ui/tooltip"
+
+// 调试模式下在服务器名称旁提示公开备注中的格式问题
+export default function PublicNoteDiagnostics({ warnings }: { warnings: PublicNoteWarning[] }) {
+  const { t } = useTranslation()
+
+  if (warnings.length === 0) {
+    return null
+  }
+
+  return (
+    <TooltipProvider delayDuration={100}>
+      <Tooltip>
+        <TooltipTrigger asChild>
+          {/* 避免触发卡片的跳转 */}
+          <span className="ml-1 inline-flex align-middle text-amber-500" onClick={(e) => e.stopPropagation()}>
+            <TriangleAlert className="size-3" />
+          </span>
+        </TooltipTrigger>
+        <TooltipContent>
+          <p className="font-semibold">{t("publicNoteWarning.title")}</p>
+          <ul className="list-disc pl-4">
+            {warnings.map((warning, index) => (
+              <li key={index}>
+                {t(`publicNoteWarning.${warning.code}`, { path: warning.path })}
+                {warning.suggestion && ` ${t("publicNoteWarning.suggestion", { suggestion: warning.suggestion })}`}
+              </li>
+            ))}
+          </ul>
+        </TooltipContent>
+      </Tooltip>
+    </TooltipProvider>
+  )
+}
@@ -2,17 +2,32 @@ import ServerFlag from "@/components/ServerFlag"
 import ServerUsageBar from "@/components/ServerUsageBar"
 import { formatBytes } from "@/lib/format"
 import { GetFontLogoClass, GetOsName, MageMicrosoftWindows } from "@/lib/logo-class"
-import { cn, formatNezhaInfo, parsePublicNote } from "@/lib/utils"
+import { cn, formatNezhaInfo, parsePublicNote, parsePublicNoteWithDiagnostics, serverPath } from "@/lib/utils"
 import { NezhaServer } from "@/types/nezha-api"
+import { memo } from "react"
 import { useTranslation } from "react-i18next"
 import { useNavigate } from "react-router-dom"
 
 import PlanInfo from "./PlanInfo"
+import PublicNoteDiagnostics from "./PublicNoteDiagnostics"
 import BillingInfo from "./billingInfo"
 import { Badge } from "./ui/badge"
 import { Card } from "./ui/card"
 
-export default function ServerCard({ now, serverInfo }: { now: number; serverInfo: NezhaServer }) {
+// 仅在服务器数据变化时重新渲染
+const ServerCard = memo(function ServerCard({
+  now,
+  serverInfo,
+  stale = false,
+  debug = false,
+}: {
+  now: number
+  serverInfo: NezhaServer
+  /** 数据已过期时降低卡片透明度 */
+  stale?: boolean
+  /** 调试模式下提示公开备注的格式问题 */
+  debug?: boolean
+}) {
   const { t } = useTranslation()
   const navigate = useNavigate()
   const { name, country_code, online, cpu, up, down, mem, stg, net_in_transfer, net_out_transfer, public_note, platform } = formatNezhaInfo(
@@ -22,7 +37,7 @@ export default function ServerCard({ now, serverInfo }: { now: number; serverInf
 
   const cardClick = () => {
     sessionStorage.setItem("fromMainPage", "true")
-    navigate(`/server/${serverInfo.id}`)
+    navigate(serverPath(serverInfo))
   }
 
   const showFlag = true
@@ -36,6 +51,8 @@ export default function ServerCard({ now, serverInfo }: { now: number; serverInf
   const fixedTopServerName = window.FixedTopServerName as boolean
 
   const parsedData = parsePublicNote(public_note)
+  // 卡片展示的备注由节点信息合成，格式问题只会出现在 Komari 中手写的原始备注里
+  const diagnostics = debug ? parsePublicNoteWithDiagnostics(serverInfo.komari.node?.public_remark ?? "").warnings : []
 
   return online ? (
     <Card
@@ -47,6 +64,7 @@ export default function ServerCard({ now, serverInfo }: { now: number; serverInf
         },
         {
           "bg-card/70": customBackgroundImage,
+          "opacity-60": stale,
         },
       )}
       onClick={cardClick}
@@ -62,7 +80,10 @@ export default function ServerCard({ now, serverInfo }: { now: number; serverInf
           {showFlag ? <ServerFlag country_code={country_code} /> : null}
         </div>
         <div className="relative flex flex-col">
-          <p className={cn("break-normal font-bold tracking-tight", showFlag ? "text-xs " : "text-sm")}>{name}</p>
+          <p className={cn("break-normal font-bold tracking-tight", showFlag ? "text-xs " : "text-sm")}>
+            {name}
+            <PublicNoteDiagnostics warnings={diagnostics} />
+          </p>
           <div
             className={cn("hidden lg:block", {
               "lg:hidden": fixedTopServerName,
@@ -158,6 +179,7 @@ export default function ServerCard({ now, serverInfo }: { now: number; serverInf
         },
         {
           "bg-card/70": customBackgroundImage,
+          "opacity-60": stale,
         },
       )}
       onClick={cardClick}
@@ -173,7 +195,10 @@ export default function ServerCard({ now, serverInfo }: { now: number; serverInf
           {showFlag ? <ServerFlag country_code={country_code} /> : null}
         </div>
         <div className="relative flex flex-col">
-          <p className={cn("break-normal font-bold tracking-tight max-w-[108px]", showFlag ? "text-xs" : "text-sm")}>{name}</p>
+          <p className={cn("break-normal font-bold tracking-tight max-w-[108px]", showFlag ? "text-xs" : "text-sm")}>
+            {name}
+            <PublicNoteDiagnostics warnings={diagnostics} />
+          </p>
           <div
             className={cn("hidden lg:block", {
               "lg:hidden": fixedTopServerName,
@@ -193,4 +218,6 @@ export default function ServerCard({ now, serverInfo }: { now: number; serverInf
       {parsedData?.planDataMod && <PlanInfo parsedData={parsedData} />}
     </Card>
   )
-}
+})
+
+export default ServerCard
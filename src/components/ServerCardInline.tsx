@@ -2,17 +2,32 @@ import ServerFlag from "@/components/ServerFlag"
 import ServerUsageBar from "@/components/ServerUsageBar"
 import { formatBytes } from "@/lib/format"
 import { GetFontLogoClass, GetOsName, MageMicrosoftWindows } from "@/lib/logo-class"
-import { cn, formatNezhaInfo, parsePublicNote } from "@/lib/utils"
+import { cn, formatNezhaInfo, parsePublicNote, parsePublicNoteWithDiagnostics, serverPath } from "@/lib/utils"
 import { NezhaServer } from "@/types/nezha-api"
+import { memo } from "react"
 import { useTranslation } from "react-i18next"
 import { useNavigate } from "react-router-dom"
 
 import PlanInfo from "./PlanInfo"
+import PublicNoteDiagnostics from "./PublicNoteDiagnostics"
 import BillingInfo from "./billingInfo"
 import { Card } from "./ui/card"
 import { Separator } from "./ui/separator"
 
-export default function ServerCardInline({ now, serverInfo }: { now: number; serverInfo: NezhaServer }) {
+// 仅在服务器数据变化时重新渲染
+const ServerCardInline = memo(function ServerCardInline({
+  now,
+  serverInfo,
+  stale = false,
+  debug = false,
+}: {
+  now: number
+  serverInfo: NezhaServer
+  /** 数据已过期时降低卡片透明度 */
+  stale?: boolean
+  /** 调试模式下提示公开备注的格式问题 */
+  debug?: boolean
+}) {
   const { t } = useTranslation()
   const navigate = useNavigate()
   const { name, country_code, online, cpu, up, down, mem, stg, platform, uptime, net_in_transfer, net_out_transfer, public_note } = formatNezhaInfo(
@@ -22,7 +37,7 @@ export default function ServerCardInline({ now, serverInfo }: { now: number; ser
 
   const cardClick = () => {
     sessionStorage.setItem("fromMainPage", "true")
-    navigate(`/server/${serverInfo.id}`)
+    navigate(serverPath(serverInfo))
   }
 
   const showFlag = true
@@ -30,6 +45,7 @@ export default function ServerCardInline({ now, serverInfo }: { now: number; ser
   const customBackgroundImage = (window.CustomBackgroundImage as string) !== "" ? window.CustomBackgroundImage : undefined
 
   const parsedData = parsePublicNote(public_note)
+  const diagnostics = debug ? parsePublicNoteWithDiagnostics(serverInfo.komari.node?.public_remark ?? "").warnings : []
 
   return online ? (
     <section>
@@ -38,6 +54,7 @@ export default function ServerCardInline({ now, serverInfo }: { now: number; ser
           "flex items-center lg:flex-row justify-start gap-3 p-3 md:px-5 cursor-pointer hover:bg-accent/50 transition-colors min-w-[900px] w-full",
           {
             "bg-card/70": customBackgroundImage,
+            "opacity-60": stale,
           },
         )}
         onClick={cardClick}
@@ -48,7 +65,10 @@ export default function ServerCardInline({ now, serverInfo }: { now: number; ser
             {showFlag ? <ServerFlag country_code={country_code} /> : null}
           </div>
           <div className="relative w-28 flex flex-col">
-            <p className={cn("break-normal font-bold tracking-tight", showFlag ? "text-xs " : "text-sm")}>{name}</p>
+            <p className={cn("break-normal font-bold tracking-tight", showFlag ? "text-xs " : "text-sm")}>
+              {name}
+              <PublicNoteDiagnostics warnings={diagnostics} />
+            </p>
             {parsedData?.billingDataMod && <BillingInfo parsedData={parsedData} />}
           </div>
         </section>
@@ -122,6 +142,7 @@ export default function ServerCardInline({ now, serverInfo }: { now: number; ser
         "flex  min-h-[61px] min-w-[900px] items-center justify-start p-3 md:px-5 flex-row cursor-pointer hover:bg-accent/50 transition-colors",
         {
           "bg-card/70": customBackgroundImage,
+          "opacity-60": stale,
         },
       )}
       onClick={cardClick}
@@ -132,7 +153,10 @@ export default function ServerCardInline({ now, serverInfo }: { now: number; ser
           {showFlag ? <ServerFlag country_code={country_code} /> : null}
         </div>
         <div className="relative flex flex-col">
-          <p className={cn("break-normal font-bold w-28 tracking-tight", showFlag ? "text-xs" : "text-sm")}>{name}</p>
+          <p className={cn("break-normal font-bold w-28 tracking-tight", showFlag ? "text-xs" : "text-sm")}>
+            {name}
+            <PublicNoteDiagnostics warnings={diagnostics} />
+          </p>
           {parsedData?.billingDataMod && <BillingInfo parsedData={parsedData} />}
         </div>
       </section>
@@ -140,4 +164,6 @@ export default function ServerCardInline({ now, serverInfo }: { now: number; ser
       {parsedData?.planDataMod && <PlanInfo parsedData={parsedData} />}
     </Card>
   )
-}
+})
+
+export default ServerCardInline
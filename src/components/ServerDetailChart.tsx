@@ -1,10 +1,12 @@
 import { Card, CardContent } from "@/components/ui/card"
 import { ChartConfig, ChartContainer } from "@/components/ui/chart"
-import { useWebSocketContext } from "@/hooks/use-websocket-context"
+import { useServerByUuid } from "@/hooks/use-fleet"
+import { useMetricHistory } from "@/hooks/use-metric-history"
 import { formatBytes } from "@/lib/format"
+import { hydrateMetricHistory } from "@/lib/metric-persistence"
 import { cn, formatNezhaInfo, formatRelativeTime } from "@/lib/utils"
-import { NezhaServer, NezhaWebsocketResponse } from "@/types/nezha-api"
-import { useEffect, useRef, useState } from "react"
+import { NezhaServer } from "@/types/nezha-api"
+import { useEffect } from "react"
 import { useTranslation } from "react-i18next"
 import { Area, AreaChart, CartesianGrid, Line, LineChart, XAxis, YAxis } from "recharts"
 
@@ -12,168 +14,84 @@ import { ServerDetailChartLoading } from "./loading/ServerDetailLoading"
 import AnimatedCircularProgressBar from "./ui/animated-circular-progress-bar"
 
 type gpuChartData = {
-  timeStamp: string
+  timeStamp: number
   gpu: number
 }
 
 type cpuChartData = {
-  timeStamp: string
+  timeStamp: number
   cpu: number
 }
 
 type processChartData = {
-  timeStamp: string
+  timeStamp: number
   process: number
 }
 
 type diskChartData = {
-  timeStamp: string
+  timeStamp: number
   disk: number
 }
 
 type memChartData = {
-  timeStamp: string
+  timeStamp: number
   mem: number
   swap: number
 }
 
 type networkChartData = {
-  timeStamp: string
+  timeStamp: number
   upload: number
   download: number
 }
 
 type connectChartData = {
-  timeStamp: string
+  timeStamp: number
   tcp: number
   udp: number
 }
 
-export default function ServerDetailChart({ server_id }: { server_id: string }) {
-  const { lastMessage, connected, messageHistory } = useWebSocketContext()
+export default function ServerDetailChart({ server_uuid }: { server_uuid: string }) {
+  const entry = useServerByUuid(server_uuid)
 
-  if (!connected && !lastMessage) {
-    return <ServerDetailChartLoading />
-  }
-
-  const nezhaWsData = lastMessage ? (JSON.parse(lastMessage.data) as NezhaWebsocketResponse) : null
+  // 从本地持久化恢复刷新前积累的历史
+  useEffect(() => {
+    hydrateMetricHistory(server_uuid)
+  }, [server_uuid])
 
-  if (!nezhaWsData) {
+  if (!entry) {
     return <ServerDetailChartLoading />
   }
 
-  const server = nezhaWsData.servers.find((s) => s.id === Number(server_id))
-
-  if (!server) {
-    return <ServerDetailChartLoading />
-  }
+  const { now, server } = entry
 
   const gpuStats = server.state.gpu || []
   const gpuList = server.host.gpu || []
 
   return (
     <section className="grid md:grid-cols-2 lg:grid-cols-3 grid-cols-1 gap-3 server-charts">
-      <CpuChart now={nezhaWsData.now} data={server} messageHistory={messageHistory} />
+      <CpuChart now={now} data={server} />
       {gpuStats.length >= 1 && gpuList.length === gpuStats.length ? (
-        gpuList.map((gpu, index) => (
-          <GpuChart
-            index={index}
-            id={server.id}
-            now={nezhaWsData.now}
-            gpuStat={gpuStats[index]}
-            gpuName={gpu}
-            messageHistory={messageHistory}
-            key={index}
-          />
-        ))
+        gpuList.map((gpu, index) => <GpuChart index={index} uuid={server.uuid} now={now} gpuStat={gpuStats[index]} gpuName={gpu} key={index} />)
       ) : gpuStats.length > 0 ? (
-        gpuStats.map((gpu, index) => (
-          <GpuChart
-            index={index}
-            id={server.id}
-            now={nezhaWsData.now}
-            gpuStat={gpu}
-            gpuName={`#${index + 1}`}
-            messageHistory={messageHistory}
-            key={index}
-          />
-        ))
+        gpuStats.map((gpu, index) => <GpuChart index={index} uuid={server.uuid} now={now} gpuStat={gpu} gpuName={`#${index + 1}`} key={index} />)
       ) : (
         <></>
       )}
-      <ProcessChart now={nezhaWsData.now} data={server} messageHistory={messageHistory} />
-      <DiskChart now={nezhaWsData.now} data={server} messageHistory={messageHistory} />
-      <MemChart now={nezhaWsData.now} data={server} messageHistory={messageHistory} />
-      <NetworkChart now={nezhaWsData.now} data={server} messageHistory={messageHistory} />
-      <ConnectChart now={nezhaWsData.now} data={server} messageHistory={messageHistory} />
+      <ProcessChart now={now} data={server} />
+      <DiskChart now={now} data={server} />
+      <MemChart now={now} data={server} />
+      <NetworkChart now={now} data={server} />
+      <ConnectChart now={now} data={server} />
     </section>
   )
 }
 
-function GpuChart({
-  id,
-  index,
-  gpuStat,
-  gpuName,
-  messageHistory,
-}: {
-  now: number
-  id: number
-  index: number
-  gpuStat: number
-  gpuName?: string
-  messageHistory: { data: string }[]
-}) {
-  const [gpuChartData, setGpuChartData] = useState<gpuChartData[]>([])
-  const hasInitialized = useRef(false)
-  const [historyLoaded, setHistoryLoaded] = useState(false)
+function GpuChart({ uuid, index, gpuStat, gpuName }: { now: number; uuid: string; index: number; gpuStat: number; gpuName?: string }) {
+  const gpuChartData: gpuChartData[] = useMetricHistory(uuid, { gpu: `gpu.${index}` })
 
   const customBackgroundImage = (window.CustomBackgroundImage as string) !== "" ? window.CustomBackgroundImage : undefined
 
-  // 初始化历史数据
-  useEffect(() => {
-    if (!hasInitialized.current && messageHistory.length > 0) {
-      const historyData = messageHistory
-        .map((msg) => {
-          const wsData = JSON.parse(msg.data) as NezhaWebsocketResponse
-          const server = wsData.servers.find((s) => s.id === id)
-          if (!server) return null
-          const { gpu } = formatNezhaInfo(wsData.now, server)
-          return {
-            timeStamp: wsData.now.toString(),
-            gpu: gpu[index],
-          }
-        })
-        .filter((item): item is gpuChartData => item !== null)
-        .reverse()
-
-      setGpuChartData(historyData)
-      hasInitialized.current = true
-      setHistoryLoaded(true)
-    }
-  }, [messageHistory])
-
-  useEffect(() => {
-    if (gpuStat && historyLoaded) {
-      const timestamp = Date.now().toString()
-      setGpuChartData((prevData) => {
-        let newData = [] as gpuChartData[]
-        if (prevData.length === 0) {
-          newData = [
-            { timeStamp: timestamp, gpu: gpuStat },
-            { timeStamp: timestamp, gpu: gpuStat },
-          ]
-        } else {
-          newData = [...prevData, { timeStamp: timestamp, gpu: gpuStat }]
-          if (newData.length > 30) {
-            newData.shift()
-          }
-        }
-        return newData
-      })
-    }
-  }, [gpuStat, historyLoaded])
-
   const chartConfig = {
     gpu: {
       label: "GPU",
@@ -211,6 +129,9 @@ function GpuChart({
               <CartesianGrid vertical={false} />
               <XAxis
                 dataKey="timeStamp"
+                type="number"
+                scale="time"
+                domain={["dataMin", "dataMax"]}
                 tickLine={false}
                 axisLine={false}
                 tickMargin={8}
@@ -228,60 +149,13 @@ function GpuChart({
   )
 }
 
-function CpuChart({ now, data, messageHistory }: { now: number; data: NezhaServer; messageHistory: { data: string }[] }) {
-  const [cpuChartData, setCpuChartData] = useState<cpuChartData[]>([])
-  const hasInitialized = useRef(false)
-  const [historyLoaded, setHistoryLoaded] = useState(false)
+function CpuChart({ now, data }: { now: number; data: NezhaServer }) {
+  const cpuChartData: cpuChartData[] = useMetricHistory(data.uuid, { cpu: "cpu" })
 
   const { cpu } = formatNezhaInfo(now, data)
 
   const customBackgroundImage = (window.CustomBackgroundImage as string) !== "" ? window.CustomBackgroundImage : undefined
 
-  // 初始化历史数据
-  useEffect(() => {
-    if (!hasInitialized.current && messageHistory.length > 0) {
-      const historyData = messageHistory
-        .map((msg) => {
-          const wsData = JSON.parse(msg.data) as NezhaWebsocketResponse
-          const server = wsData.servers.find((s) => s.id === data.id)
-          if (!server) return null
-          const { cpu } = formatNezhaInfo(wsData.now, server)
-          return {
-            timeStamp: wsData.now.toString(),
-            cpu: cpu,
-          }
-        })
-        .filter((item): item is cpuChartData => item !== null)
-        .reverse() // 保持时间顺序
-
-      setCpuChartData(historyData)
-      hasInitialized.current = true
-      setHistoryLoaded(true)
-    }
-  }, [messageHistory])
-
-  // 更新实时数据
-  useEffect(() => {
-    if (data && historyLoaded) {
-      const timestamp = Date.now().toString()
-      setCpuChartData((prevData) => {
-        let newData = [] as cpuChartData[]
-        if (prevData.length === 0) {
-          newData = [
-            { timeStamp: timestamp, cpu: cpu },
-            { timeStamp: timestamp, cpu: cpu },
-          ]
-        } else {
-          newData = [...prevData, { timeStamp: timestamp, cpu: cpu }]
-          if (newData.length > 30) {
-            newData.shift()
-          }
-        }
-        return newData
-      })
-    }
-  }, [data, historyLoaded])
-
   const chartConfig = {
     cpu: {
       label: "CPU",
@@ -316,6 +190,9 @@ function CpuChart({ now, data, messageHistory }: { now: number; data: NezhaServe
               <CartesianGrid vertical={false} />
               <XAxis
                 dataKey="timeStamp"
+                type="number"
+                scale="time"
+                domain={["dataMin", "dataMax"]}
                 tickLine={false}
                 axisLine={false}
                 tickMargin={8}
@@ -333,61 +210,14 @@ function CpuChart({ now, data, messageHistory }: { now: number; data: NezhaServe
   )
 }
 
-function ProcessChart({ now, data, messageHistory }: { now: number; data: NezhaServer; messageHistory: { data: string }[] }) {
+function ProcessChart({ now, data }: { now: number; data: NezhaServer }) {
   const { t } = useTranslation()
-  const [processChartData, setProcessChartData] = useState([] as processChartData[])
-  const hasInitialized = useRef(false)
-  const [historyLoaded, setHistoryLoaded] = useState(false)
+  const processChartData: processChartData[] = useMetricHistory(data.uuid, { process: "process" })
 
   const customBackgroundImage = (window.CustomBackgroundImage as string) !== "" ? window.CustomBackgroundImage : undefined
 
   const { process } = formatNezhaInfo(now, data)
 
-  // 初始化历史数据
-  useEffect(() => {
-    if (!hasInitialized.current && messageHistory.length > 0) {
-      const historyData = messageHistory
-        .map((msg) => {
-          const wsData = JSON.parse(msg.data) as NezhaWebsocketResponse
-          const server = wsData.servers.find((s) => s.id === data.id)
-          if (!server) return null
-          const { process } = formatNezhaInfo(wsData.now, server)
-          return {
-            timeStamp: wsData.now.toString(),
-            process,
-          }
-        })
-        .filter((item): item is processChartData => item !== null)
-        .reverse()
-
-      setProcessChartData(historyData)
-      hasInitialized.current = true
-      setHistoryLoaded(true)
-    }
-  }, [messageHistory])
-
-  // 修改实时数据更新逻辑
-  useEffect(() => {
-    if (data && historyLoaded) {
-      const timestamp = Date.now().toString()
-      setProcessChartData((prevData) => {
-        let newData = [] as processChartData[]
-        if (prevData.length === 0) {
-          newData = [
-            { timeStamp: timestamp, process },
-            { timeStamp: timestamp, process },
-          ]
-        } else {
-          newData = [...prevData, { timeStamp: timestamp, process }]
-          if (newData.length > 30) {
-            newData.shift()
-          }
-        }
-        return newData
-      })
-    }
-  }, [data, historyLoaded])
-
   const chartConfig = {
     process: {
       label: "Process",
@@ -421,6 +251,9 @@ function ProcessChart({ now, data, messageHistory }: { now: number; data: NezhaS
               <CartesianGrid vertical={false} />
               <XAxis
                 dataKey="timeStamp"
+                type="number"
+                scale="time"
+                domain={["dataMin", "dataMax"]}
                 tickLine={false}
                 axisLine={false}
                 tickMargin={8}
@@ -445,62 +278,14 @@ function ProcessChart({ now, data, messageHistory }: { now: number; data: NezhaS
   )
 }
 
-function MemChart({ now, data, messageHistory }: { now: number; data: NezhaServer; messageHistory: { data: string }[] }) {
+function MemChart({ now, data }: { now: number; data: NezhaServer }) {
   const { t } = useTranslation()
-  const [memChartData, setMemChartData] = useState([] as memChartData[])
-  const hasInitialized = useRef(false)
-  const [historyLoaded, setHistoryLoaded] = useState(false)
+  const memChartData: memChartData[] = useMetricHistory(data.uuid, { mem: "mem", swap: "swap" })
 
   const customBackgroundImage = (window.CustomBackgroundImage as string) !== "" ? window.CustomBackgroundImage : undefined
 
   const { mem, swap } = formatNezhaInfo(now, data)
 
-  // 初始化历史数据
-  useEffect(() => {
-    if (!hasInitialized.current && messageHistory.length > 0) {
-      const historyData = messageHistory
-        .map((msg) => {
-          const wsData = JSON.parse(msg.data) as NezhaWebsocketResponse
-          const server = wsData.servers.find((s) => s.id === data.id)
-          if (!server) return null
-          const { mem, swap } = formatNezhaInfo(wsData.now, server)
-          return {
-            timeStamp: wsData.now.toString(),
-            mem,
-            swap,
-          }
-        })
-        .filter((item): item is memChartData => item !== null)
-        .reverse()
-
-      setMemChartData(historyData)
-      hasInitialized.current = true
-      setHistoryLoaded(true)
-    }
-  }, [messageHistory])
-
-  // 修改实时数据更新逻辑
-  useEffect(() => {
-    if (data && historyLoaded) {
-      const timestamp = Date.now().toString()
-      setMemChartData((prevData) => {
-        let newData = [] as memChartData[]
-        if (prevData.length === 0) {
-          newData = [
-            { timeStamp: timestamp, mem, swap },
-            { timeStamp: timestamp, mem, swap },
-          ]
-        } else {
-          newData = [...prevData, { timeStamp: timestamp, mem, swap }]
-          if (newData.length > 30) {
-            newData.shift()
-          }
-        }
-        return newData
-      })
-    }
-  }, [data, historyLoaded])
-
   const chartConfig = {
     mem: {
       label: "Mem",
@@ -563,6 +348,9 @@ function MemChart({ now, data, messageHistory }: { now: number; data: NezhaServe
               <CartesianGrid vertical={false} />
               <XAxis
                 dataKey="timeStamp"
+                type="number"
+                scale="time"
+                domain={["dataMin", "dataMax"]}
                 tickLine={false}
                 axisLine={false}
                 tickMargin={8}
@@ -588,61 +376,14 @@ function MemChart({ now, data, messageHistory }: { now: number; data: NezhaServe
   )
 }
 
-function DiskChart({ now, data, messageHistory }: { now: number; data: NezhaServer; messageHistory: { data: string }[] }) {
+function DiskChart({ now, data }: { now: number; data: NezhaServer }) {
   const { t } = useTranslation()
-  const [diskChartData, setDiskChartData] = useState([] as diskChartData[])
-  const hasInitialized = useRef(false)
-  const [historyLoaded, setHistoryLoaded] = useState(false)
+  const diskChartData: diskChartData[] = useMetricHistory(data.uuid, { disk: "disk" })
 
   const customBackgroundImage = (window.CustomBackgroundImage as string) !== "" ? window.CustomBackgroundImage : undefined
 
   const { disk } = formatNezhaInfo(now, data)
 
-  // 初始化历史数据
-  useEffect(() => {
-    if (!hasInitialized.current && messageHistory.length > 0) {
-      const historyData = messageHistory
-        .map((msg) => {
-          const wsData = JSON.parse(msg.data) as NezhaWebsocketResponse
-          const server = wsData.servers.find((s) => s.id === data.id)
-          if (!server) return null
-          const { disk } = formatNezhaInfo(wsData.now, server)
-          return {
-            timeStamp: wsData.now.toString(),
-            disk,
-          }
-        })
-        .filter((item): item is diskChartData => item !== null)
-        .reverse()
-
-      setDiskChartData(historyData)
-      hasInitialized.current = true
-      setHistoryLoaded(true)
-    }
-  }, [messageHistory])
-
-  // 修改实时数据更新逻辑
-  useEffect(() => {
-    if (data && historyLoaded) {
-      const timestamp = Date.now().toString()
-      setDiskChartData((prevData) => {
-        let newData = [] as diskChartData[]
-        if (prevData.length === 0) {
-          newData = [
-            { timeStamp: timestamp, disk },
-            { timeStamp: timestamp, disk },
-          ]
-        } else {
-          newData = [...prevData, { timeStamp: timestamp, disk }]
-          if (newData.length > 30) {
-            newData.shift()
-          }
-        }
-        return newData
-      })
-    }
-  }, [data, historyLoaded])
-
   const chartConfig = {
     disk: {
       label: "Disk",
@@ -682,6 +423,9 @@ function DiskChart({ now, data, messageHistory }: { now: number; data: NezhaServ
               <CartesianGrid vertical={false} />
               <XAxis
                 dataKey="timeStamp"
+                type="number"
+                scale="time"
+                domain={["dataMin", "dataMax"]}
                 tickLine={false}
                 axisLine={false}
                 tickMargin={8}
@@ -699,62 +443,14 @@ function DiskChart({ now, data, messageHistory }: { now: number; data: NezhaServ
   )
 }
 
-function NetworkChart({ now, data, messageHistory }: { now: number; data: NezhaServer; messageHistory: { data: string }[] }) {
+function NetworkChart({ now, data }: { now: number; data: NezhaServer }) {
   const { t } = useTranslation()
-  const [networkChartData, setNetworkChartData] = useState([] as networkChartData[])
-  const hasInitialized = useRef(false)
-  const [historyLoaded, setHistoryLoaded] = useState(false)
+  const networkChartData: networkChartData[] = useMetricHistory(data.uuid, { upload: "up", download: "down" })
 
   const customBackgroundImage = (window.CustomBackgroundImage as string) !== "" ? window.CustomBackgroundImage : undefined
 
   const { up, down } = formatNezhaInfo(now, data)
 
-  // 初始化历史数据
-  useEffect(() => {
-    if (!hasInitialized.current && messageHistory.length > 0) {
-      const historyData = messageHistory
-        .map((msg) => {
-          const wsData = JSON.parse(msg.data) as NezhaWebsocketResponse
-          const server = wsData.servers.find((s) => s.id === data.id)
-          if (!server) return null
-          const { up, down } = formatNezhaInfo(wsData.now, server)
-          return {
-            timeStamp: wsData.now.toString(),
-            upload: up,
-            download: down,
-          }
-        })
-        .filter((item): item is networkChartData => item !== null)
-        .reverse()
-
-      setNetworkChartData(historyData)
-      hasInitialized.current = true
-      setHistoryLoaded(true)
-    }
-  }, [messageHistory])
-
-  // 修改实时数据更新逻辑
-  useEffect(() => {
-    if (data && historyLoaded) {
-      const timestamp = Date.now().toString()
-      setNetworkChartData((prevData) => {
-        let newData = [] as networkChartData[]
-        if (prevData.length === 0) {
-          newData = [
-            { timeStamp: timestamp, upload: up, download: down },
-            { timeStamp: timestamp, upload: up, download: down },
-          ]
-        } else {
-          newData = [...prevData, { timeStamp: timestamp, upload: up, download: down }]
-          if (newData.length > 30) {
-            newData.shift()
-          }
-        }
-        return newData
-      })
-    }
-  }, [data, historyLoaded])
-
   let maxDownload = Math.max(...networkChartData.map((item) => item.download))
   maxDownload = Math.ceil(maxDownload)
   if (maxDownload < 1) {
@@ -813,6 +509,9 @@ function NetworkChart({ now, data, messageHistory }: { now: number; data: NezhaS
               <CartesianGrid vertical={false} />
               <XAxis
                 dataKey="timeStamp"
+                type="number"
+                scale="time"
+                domain={["dataMin", "dataMax"]}
                 tickLine={false}
                 axisLine={false}
                 tickMargin={8}
@@ -841,61 +540,13 @@ function NetworkChart({ now, data, messageHistory }: { now: number; data: NezhaS
   )
 }
 
-function ConnectChart({ now, data, messageHistory }: { now: number; data: NezhaServer; messageHistory: { data: string }[] }) {
-  const [connectChartData, setConnectChartData] = useState([] as connectChartData[])
-  const hasInitialized = useRef(false)
-  const [historyLoaded, setHistoryLoaded] = useState(false)
+function ConnectChart({ now, data }: { now: number; data: NezhaServer }) {
+  const connectChartData: connectChartData[] = useMetricHistory(data.uuid, { tcp: "tcp", udp: "udp" })
 
   const customBackgroundImage = (window.CustomBackgroundImage as string) !== "" ? window.CustomBackgroundImage : undefined
 
   const { tcp, udp } = formatNezhaInfo(now, data)
 
-  // 初始化历史数据
-  useEffect(() => {
-    if (!hasInitialized.current && messageHistory.length > 0) {
-      const historyData = messageHistory
-        .map((msg) => {
-          const wsData = JSON.parse(msg.data) as NezhaWebsocketResponse
-          const server = wsData.servers.find((s) => s.id === data.id)
-          if (!server) return null
-          const { tcp, udp } = formatNezhaInfo(wsData.now, server)
-          return {
-            timeStamp: wsData.now.toString(),
-            tcp,
-            udp,
-          }
-        })
-        .filter((item): item is connectChartData => item !== null)
-        .reverse()
-
-      setConnectChartData(historyData)
-      hasInitialized.current = true
-      setHistoryLoaded(true)
-    }
-  }, [messageHistory])
-
-  // 修改实时数据更新逻辑
-  useEffect(() => {
-    if (data && historyLoaded) {
-      const timestamp = Date.now().toString()
-      setConnectChartData((prevData) => {
-        let newData = [] as connectChartData[]
-        if (prevData.length === 0) {
-          newData = [
-            { timeStamp: timestamp, tcp, udp },
-            { timeStamp: timestamp, tcp, udp },
-          ]
-        } else {
-          newData = [...prevData, { timeStamp: timestamp, tcp, udp }]
-          if (newData.length > 30) {
-            newData.shift()
-          }
-        }
-        return newData
-      })
-    }
-  }, [data, historyLoaded])
-
   const chartConfig = {
     tcp: {
       label: "TCP",
@@ -944,6 +595,9 @@ function ConnectChart({ now, data, messageHistory }: { now: number; data: NezhaS
               <CartesianGrid vertical={false} />
               <XAxis
                 dataKey="timeStamp"
+                type="number"
+                scale="time"
+                domain={["dataMin", "dataMax"]}
                 tickLine={false}
                 axisLine={false}
                 tickMargin={8}
@@ -3,10 +3,9 @@ import ServerFlag from "@/components/ServerFlag"
 import { ServerDetailLoading } from "@/components/loading/ServerDetailLoading"
 import { Badge } from "@/components/ui/badge"
 import { Card, CardContent } from "@/components/ui/card"
-import { useWebSocketContext } from "@/hooks/use-websocket-context"
+import { useServerByUuid } from "@/hooks/use-fleet"
 import { formatBytes } from "@/lib/format"
 import { cn, formatNezhaInfo } from "@/lib/utils"
-import { NezhaWebsocketResponse } from "@/types/nezha-api"
 import countries from "i18n-iso-countries"
 import enLocale from "i18n-iso-countries/langs/en.json"
 import { useEffect, useState } from "react"
@@ -16,7 +15,7 @@ import { useNavigate } from "react-router-dom"
 import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from "./ui/accordion"
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "./ui/tooltip"
 
-export default function ServerDetailOverview({ server_id }: { server_id: string }) {
+export default function ServerDetailOverview({ server_uuid }: { server_uuid: string }) {
   const { t } = useTranslation()
   const navigate = useNavigate()
 
@@ -29,11 +28,7 @@ export default function ServerDetailOverview({ server_id }: { server_id: string
     }
   }, [])
 
-  const { lastMessage, connected } = useWebSocketContext()
-
-  if (!connected && !lastMessage) {
-    return <ServerDetailLoading />
-  }
+  const entry = useServerByUuid(server_uuid)
 
   const linkClick = () => {
     if (hasHistory) {
@@ -43,17 +38,11 @@ export default function ServerDetailOverview({ server_id }: { server_id: string
     }
   }
 
-  const nezhaWsData = lastMessage ? (JSON.parse(lastMessage.data) as NezhaWebsocketResponse) : null
-
-  if (!nezhaWsData) {
+  if (!entry) {
     return <ServerDetailLoading />
   }
 
-  const server = nezhaWsData.servers.find((s) => s.id === Number(server_id))
-
-  if (!server) {
-    return <ServerDetailLoading />
-  }
+  const { now, server } = entry
 
   const {
     name,
@@ -75,7 +64,7 @@ export default function ServerDetailOverview({ server_id }: { server_id: string
     net_in_transfer,
     last_active_time_string,
     boot_time_string,
-  } = formatNezhaInfo(nezhaWsData.now, server)
+  } = formatNezhaInfo(now, server)
 
   const customBackgroundImage = (window.CustomBackgroundImage as string) !== "" ? window.CustomBackgroundImage : undefined
 
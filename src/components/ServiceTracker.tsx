@@ -48,7 +48,10 @@ export function ServiceTracker({ serverList }: { serverList: NezhaServer[] }) {
     )
   }
 
-  if (!serviceData?.data?.services && !serviceData?.data?.cycle_transfer_stats) {
+  const hasServices = Object.keys(serviceData?.data?.services || {}).length > 0
+  const hasCycleTransferStats = Object.keys(serviceData?.data?.cycle_transfer_stats || {}).length > 0
+
+  if (!serviceData || (!hasServices && !hasCycleTransferStats)) {
     return (
       <div className="mt-4 text-sm font-medium flex items-center gap-1">
         <ExclamationTriangleIcon className="w-4 h-4" />
@@ -1,19 +1,30 @@
 import { createContext } from "react"
 
 export interface WebSocketContextType {
-  lastMessage: { data: string } | null
+  /** 最近一次拉取节点状态是否成功 */
   connected: boolean
-  messageHistory: { data: string }[]
+  /** 最近一次成功拉取的时间 */
+  lastSuccessAt: number | null
+  /** 连续失败次数，成功后归零 */
+  consecutiveFailures: number
+  lastError: string | null
+  /** 数据是否已超过阈值未更新 */
+  stale: boolean
   reconnect: () => void
+  /** 重新拉取节点元数据（名称、分组、排序等） */
+  refreshMetadata: () => void
   needReconnect: boolean
   setNeedReconnect: (needReconnect: boolean) => void
 }
 
 export const WebSocketContext = createContext<WebSocketContextType>({
-  lastMessage: null,
   connected: false,
-  messageHistory: [],
+  lastSuccessAt: null,
+  consecutiveFailures: 0,
+  lastError: null,
+  stale: false,
   reconnect: () => {},
+  refreshMetadata: () => {},
   needReconnect: false,
   setNeedReconnect: () => {},
 })
@@ -1,6 +1,11 @@
-import { SharedClient } from "@/hooks/use-rpc2"
-import { getKomariNodes, komariToNezhaWebsocketResponse } from "@/lib/utils"
-import React, { useEffect, useState } from "react"
+import { fleetStore } from "@/lib/fleet-store"
+import { FleetWorkerRequest, FleetWorkerResponse, createFleetWorker } from "@/lib/fleet-worker"
+import { getBackends } from "@/lib/komari-backends"
+import { metricHistory } from "@/lib/metric-history"
+import { fetchSetting } from "@/lib/nezha-api"
+import { getCachedKomariNodes, getKomariNodes, getKomariNodesStatus, hasKomariNodesCache, refreshKomariNodes } from "@/lib/utils"
+import { useQuery, useQueryClient } from "@tanstack/react-query"
+import React, { useEffect, useRef, useState } from "react"
 
 import { WebSocketContext, WebSocketContextType } from "./websocket-context"
 
@@ -9,39 +14,252 @@ interface WebSocketProviderProps {
   children: React.ReactNode
 }
 
+// 轮询间隔，可在 Komari 后台的主题设置中修改（单位为秒）
+const DEFAULT_POLL_INTERVAL = 2000
+const DEFAULT_HIDDEN_POLL_INTERVAL = 30000
+const MIN_POLL_INTERVAL = 1000
+// 连续失败时指数退避的上限
+const MAX_BACKOFF_INTERVAL = 60000
+// 节点增删触发的元数据刷新最短间隔，避免节点反复上下线时频繁请求
+const METADATA_REFRESH_COOLDOWN = 30000
+// 超过若干个轮询周期（至少 10 秒）没有成功获取数据时视为过期
+const STALE_POLL_COUNT = 3
+const MIN_STALE_THRESHOLD = 10000
+
+const errorMessage = (error: unknown) => (error instanceof Error ? error.message : String(error))
+
+// 读取以秒为单位的主题设置，无效时使用默认值
+const readInterval = (settings: Record<string, unknown> | undefined, key: string, fallback: number) => {
+  const raw = settings?.[key]
+  const seconds = typeof raw === "number" ? raw : typeof raw === "string" && raw.trim() !== "" ? Number(raw) : NaN
+  return Number.isFinite(seconds) && seconds >= 0 ? seconds * 1000 : fallback
+}
+
 export const WebSocketProvider: React.FC<WebSocketProviderProps> = ({ url, children }) => {
-  const [lastMessage, setLastMessage] = useState<{ data: string } | null>(null)
-  const [messageHistory, setMessageHistory] = useState<{ data: string }[]>([]) // 新增历史消息状态
   const [connected, setConnected] = useState(false)
   const [needReconnect, setNeedReconnect] = useState(false)
+  const [lastSuccessAt, setLastSuccessAt] = useState<number | null>(null)
+  const [consecutiveFailures, setConsecutiveFailures] = useState(0)
+  const [lastError, setLastError] = useState<string | null>(null)
+  const [stale, setStale] = useState(false)
   // const ws = useRef<WebSocket | null>(null)
   // const reconnectTimeout = useRef<NodeJS.Timeout>(null)
   // const maxReconnectAttempts = 30
   // const reconnectAttempts = useRef(0)
   // const isConnecting = useRef(false)
 
-  const getData = () => {
-    const rpc2 = SharedClient()
-    return rpc2.call("common:getNodesLatestStatus").then((res) => {
-      //console.log(res)
-      const nzwsres = komariToNezhaWebsocketResponse(res)
-      setLastMessage({ data: JSON.stringify(nzwsres) })
-      setMessageHistory((prev) => {
-        const updated = [{ data: JSON.stringify(nzwsres) }, ...prev]
-        return updated.slice(0, 30)
-      })
-    })
+  const queryClient = useQueryClient()
+  const { data: settingData } = useQuery({
+    queryKey: ["setting"],
+    queryFn: ({ signal }) => fetchSetting(signal),
+  })
+  const themeSettings = settingData?.data?.config?.theme_settings
+  // 轮询循环只启动一次，间隔通过 ref 读取，设置加载后从下一次调度开始生效
+  const intervals = useRef({ visible: DEFAULT_POLL_INTERVAL, hidden: DEFAULT_HIDDEN_POLL_INTERVAL })
+  intervals.current = {
+    visible: Math.max(MIN_POLL_INTERVAL, readInterval(themeSettings, "poll_interval", DEFAULT_POLL_INTERVAL)),
+    // 为 0 时隐藏期间暂停轮询
+    hidden: readInterval(themeSettings, "hidden_poll_interval", DEFAULT_HIDDEN_POLL_INTERVAL),
   }
 
+  // 由轮询循环提供，请求在下一次轮询前刷新节点元数据
+  const requestMetadataRefresh = useRef<() => void>(() => {})
+
   useEffect(() => {
-    getKomariNodes() // 尝试缓存
-    getData().then(() => {
+    let timer: ReturnType<typeof setTimeout> | null = null
+    let staleTimer: ReturnType<typeof setTimeout> | null = null
+    let stopped = false
+    let inFlight = false
+    // 整次轮询连续失败的次数，用于退避
+    let failures = 0
+    // 连续未能完整获取（全部或部分后端失败）的次数，用于提示
+    let failedPolls = 0
+    let succeededAt = 0
+    // 尚未收到快照时从启动时刻计算过期
+    const startedAt = Date.now()
+    // 已发给 Worker 的状态是否包含所有后端，按发送顺序与快照对应
+    const pendingComplete: boolean[] = []
+    // 上一次状态数据中的服务器键
+    let previousKeys: Set<string> | null = null
+    let metadataRefreshedAt = 0
+    let metadataRequested = false
+    // 上一次发给 Worker 的各后端节点列表，用于判断是否需要重新发送
+    let sentNodes: unknown[] = []
+
+    const staleThreshold = () => Math.max(MIN_STALE_THRESHOLD, intervals.current.visible * STALE_POLL_COUNT)
+
+    // 标签页隐藏时不标记过期，切回后会立即刷新
+    const markStaleIfExpired = () => {
+      if (!stopped && !document.hidden && Date.now() - (succeededAt || startedAt) >= staleThreshold()) {
+        setStale(true)
+      }
+    }
+
+    // 请求通过页面共享的 RPC2 客户端发出，转换与比较在 Worker 中进行，这里只应用结果
+    const worker = createFleetWorker()
+    const send = (request: FleetWorkerRequest) => worker.postMessage(request)
+
+    // 记录一次失败，数据超过阈值未完整更新时标记过期
+    const reportFailure = (message: string, disconnected: boolean) => {
+      failedPolls++
+      if (stopped) return
+      if (disconnected) setConnected(false)
+      setConsecutiveFailures(failedPolls)
+      setLastError(message)
+      markStaleIfExpired()
+    }
+
+    worker.onmessage = (event: MessageEvent<FleetWorkerResponse>) => {
+      if (stopped) return
+      const { patch, metrics } = event.data
+      metricHistory.recordMetrics(patch.now, metrics)
+      fleetStore.apply(patch)
       setConnected(true)
-    })
+      // 有后端失败时其余节点照常更新，但不算作完整的成功，失败已在轮询时记录
+      if (pendingComplete.shift() === false) return
+      failedPolls = 0
+      succeededAt = Date.now()
+      if (staleTimer) clearTimeout(staleTimer)
+      staleTimer = setTimeout(markStaleIfExpired, staleThreshold())
+      setLastSuccessAt(succeededAt)
+      setConsecutiveFailures(0)
+      setLastError(null)
+      setStale(false)
+    }
+    // Worker 加载失败或转换出错时没有快照返回，同样计为失败
+    worker.onerror = (event) => {
+      console.error("节点状态 Worker 出错:", event.message)
+      pendingComplete.shift()
+      reportFailure(event.message || "节点状态 Worker 出错", true)
+    }
+    worker.onmessageerror = () => {
+      console.error("无法读取节点状态 Worker 发来的快照")
+      pendingComplete.shift()
+      reportFailure("无法读取节点状态 Worker 发来的快照", true)
+    }
+
+    // 节点列表只在缓存更新后发给 Worker，避免每次轮询都复制整份列表
+    const syncNodes = () => {
+      const cached = getBackends().map(({ client }) => client.getCached("common:getNodes"))
+      if (cached.length === sentNodes.length && cached.every((nodes, index) => nodes === sentNodes[index])) return
+      sentNodes = cached
+      send({ type: "nodes", nodes: getCachedKomariNodes() })
+    }
 
-    setInterval(() => {
-      getData()
-    }, 2000)
+    const clearTimer = () => {
+      if (timer) {
+        clearTimeout(timer)
+        timer = null
+      }
+    }
+
+    const schedule = () => {
+      clearTimer()
+      if (stopped || inFlight) return
+      const { visible, hidden } = intervals.current
+      if (document.hidden && hidden === 0) return
+      const base = document.hidden ? Math.max(visible, hidden) : visible
+      // 连续失败时指数退避，上限为 MAX_BACKOFF_INTERVAL（或更长的基础间隔）
+      const delay = Math.min(base * 2 ** failures, Math.max(base, MAX_BACKOFF_INTERVAL))
+      timer = setTimeout(poll, delay)
+    }
+
+    // 状态中出现元数据里没有的节点，或上一次出现的节点消失时，说明节点列表可能有增删
+    // 失败后端的节点不在状态中，不视为消失
+    const hasMembershipChanged = (keys: Set<string>, failedBackends: Set<string>) => {
+      const nodes = getCachedKomariNodes()
+      for (const key of keys) {
+        if (!(key in nodes)) return true
+      }
+      return previousKeys !== null && [...previousKeys].some((key) => !keys.has(key) && !(key in nodes && failedBackends.has(nodes[key].backend)))
+    }
+
+    const refreshMetadata = async () => {
+      metadataRefreshedAt = Date.now()
+      try {
+        await refreshKomariNodes()
+      } catch (error) {
+        console.error("刷新节点列表失败:", error)
+      }
+      queryClient.invalidateQueries({ queryKey: ["server-group"] })
+    }
+
+    const poll = async () => {
+      timer = null
+      inFlight = true
+      try {
+        const { status, failures: backendFailures } = await getKomariNodesStatus()
+        const keys = new Set(Object.keys(status))
+        const failedBackends = new Set(backendFailures.map(({ backend }) => backend))
+        if (metadataRequested || (hasMembershipChanged(keys, failedBackends) && Date.now() - metadataRefreshedAt >= METADATA_REFRESH_COOLDOWN)) {
+          metadataRequested = false
+          // 等待刷新完成，新节点在本次快照中即带有完整的元数据
+          await refreshMetadata()
+        } else if (!hasKomariNodesCache()) {
+          // 节点缓存过期时在后台刷新，期间继续使用上一次的节点列表
+          getKomariNodes().catch((error) => console.error("获取节点列表失败:", error))
+        }
+        // 失败后端的节点不计入，恢复后不会被当作新增
+        previousKeys = keys
+        failures = 0
+        if (backendFailures.length > 0) {
+          reportFailure(backendFailures.map(({ backend, error }) => `${backend}: ${errorMessage(error)}`).join("; "), false)
+        }
+        if (!stopped) {
+          syncNodes()
+          pendingComplete.push(backendFailures.length === 0)
+          send({ type: "status", status })
+        }
+      } catch (error) {
+        failures++
+        console.warn(`获取节点状态失败（连续 ${failures} 次）:`, error)
+        reportFailure(errorMessage(error), true)
+      } finally {
+        inFlight = false
+        schedule()
+      }
+    }
+
+    // 正在轮询时由下一次轮询处理
+    requestMetadataRefresh.current = () => {
+      metadataRequested = true
+      if (!stopped && !inFlight) {
+        clearTimer()
+        poll()
+      }
+    }
+
+    // 切回标签页时立即刷新，隐藏时按后台间隔重新调度
+    const handleVisibilityChange = () => {
+      if (document.hidden) {
+        schedule()
+      } else if (!inFlight) {
+        clearTimer()
+        poll()
+      }
+    }
+
+    // 一直没有快照（如 Worker 无法加载）时也能标记过期
+    staleTimer = setTimeout(markStaleIfExpired, staleThreshold())
+    // 先取得节点列表，避免第一次快照为空
+    getKomariNodes()
+      .catch((error) => console.error("获取节点列表失败:", error))
+      .finally(() => {
+        if (!stopped && !inFlight) {
+          clearTimer()
+          poll()
+        }
+      })
+    document.addEventListener("visibilitychange", handleVisibilityChange)
+
+    return () => {
+      stopped = true
+      clearTimer()
+      if (staleTimer) clearTimeout(staleTimer)
+      document.removeEventListener("visibilitychange", handleVisibilityChange)
+      requestMetadataRefresh.current = () => {}
+      worker.terminate()
+    }
   }, [])
 
   const cleanup = () => {
@@ -124,6 +342,8 @@ export const WebSocketProvider: React.FC<WebSocketProviderProps> = ({ url, child
     // }
   }
 
+  const refreshMetadata = () => requestMetadataRefresh.current()
+
   const reconnect = () => {
     return
     // 使用RPC2自动管理
@@ -152,10 +372,13 @@ export const WebSocketProvider: React.FC<WebSocketProviderProps> = ({ url, child
   }, [url])
 
   const contextValue: WebSocketContextType = {
-    lastMessage,
     connected,
-    messageHistory,
+    lastSuccessAt,
+    consecutiveFailures,
+    lastError,
+    stale,
     reconnect,
+    refreshMetadata,
     needReconnect,
     setNeedReconnect,
   }
@@ -0,0 +1,84 @@
+import { FleetEntry, fleetStore } from "@/lib/fleet-store"
+import { useRef, useSyncExternalStore } from "react"
+
+export interface FleetTotals {
+  total: number
+  online: number
+  offline: number
+  /** 在线服务器的累计上传/下载流量 */
+  up: number
+  down: number
+  /** 在线服务器的实时上传/下载速度 */
+  upSpeed: number
+  downSpeed: number
+}
+
+const EMPTY_TOTALS: FleetTotals = { total: 0, online: 0, offline: 0, up: 0, down: 0, upSpeed: 0, downSpeed: 0 }
+
+const isSameList = (a: FleetEntry[], b: FleetEntry[]) => a.length === b.length && a.every((entry, index) => entry === b[index])
+
+const isSameTotals = (a: FleetTotals, b: FleetTotals) => (Object.keys(a) as (keyof FleetTotals)[]).every((key) => a[key] === b[key])
+
+/**
+ * 订阅单台服务器，仅在该服务器的数据或在线状态变化时重新渲染
+ */
+export function useServer(id: number): FleetEntry | undefined {
+  return useSyncExternalStore(fleetStore.subscribe, () => fleetStore.getEntry(id))
+}
+
+/**
+ * 按服务器键订阅单台服务器，兼容旧的数字 ID 链接
+ */
+export function useServerByUuid(uuid: string): FleetEntry | undefined {
+  return useSyncExternalStore(
+    fleetStore.subscribe,
+    () => fleetStore.getEntryByUuid(uuid) ?? (/^\d+$/.test(uuid) ? fleetStore.getEntry(Number(uuid)) : undefined),
+  )
+}
+
+/**
+ * 订阅服务器列表，筛选结果中的服务器均未变化时返回同一数组
+ */
+export function useServerList(filter?: (entry: FleetEntry) => boolean): FleetEntry[] {
+  const cache = useRef<FleetEntry[]>([])
+
+  return useSyncExternalStore(fleetStore.subscribe, () => {
+    const entries = fleetStore.getEntries()
+    const next = filter ? entries.filter(filter) : entries
+    if (!isSameList(next, cache.current)) {
+      cache.current = next
+    }
+    return cache.current
+  })
+}
+
+/**
+ * 订阅整体统计，统计值不变时不会触发重新渲染
+ */
+export function useFleetTotals(filter?: (entry: FleetEntry) => boolean): FleetTotals {
+  const cache = useRef<FleetTotals>(EMPTY_TOTALS)
+
+  return useSyncExternalStore(fleetStore.subscribe, () => {
+    const entries = fleetStore.getEntries()
+    const next = (filter ? entries.filter(filter) : entries).reduce(
+      (totals, { server, online }) => {
+        totals.total++
+        if (!online) {
+          totals.offline++
+          return totals
+        }
+        totals.online++
+        totals.up += server.state?.net_out_transfer ?? 0
+        totals.down += server.state?.net_in_transfer ?? 0
+        totals.upSpeed += server.state?.net_out_speed ?? 0
+        totals.downSpeed += server.state?.net_in_speed ?? 0
+        return totals
+      },
+      { ...EMPTY_TOTALS },
+    )
+    if (!isSameTotals(next, cache.current)) {
+      cache.current = next
+    }
+    return cache.current
+  })
+}
@@ -0,0 +1,36 @@
+import { MetricName, metricHistory } from "@/lib/metric-history"
+import { useMemo, useSyncExternalStore } from "react"
+
+/**
+ * 将多个指标的历史合并为图表数据，例如 { mem: "mem", swap: "swap" } 得到 { timeStamp, mem, swap }[]
+ */
+export function useMetricHistory<K extends string>(serverUuid: string, fields: Record<K, MetricName>): ({ timeStamp: number } & Record<K, number>)[] {
+  const version = useSyncExternalStore(metricHistory.subscribe, () => metricHistory.version)
+  const fieldsKey = JSON.stringify(fields)
+
+  return useMemo(() => {
+    const entries = Object.entries(fields) as [K, MetricName][]
+    const [[baseKey, baseMetric], ...others] = entries
+    // 同一次轮询写入的各项指标时间戳相同，按时间戳对齐
+    const lookups = others.map(
+      ([key, metric]) => [key, new Map(metricHistory.getSeries(serverUuid, metric).map((point) => [point.timeStamp, point.value]))] as const,
+    )
+
+    const rows: ({ timeStamp: number } & Record<K, number>)[] = []
+    for (const point of metricHistory.getSeries(serverUuid, baseMetric)) {
+      const row: Record<string, number> = { timeStamp: point.timeStamp, [baseKey]: point.value }
+      let complete = true
+      for (const [key, values] of lookups) {
+        const value = values.get(point.timeStamp)
+        if (value === undefined) {
+          complete = false
+          break
+        }
+        row[key] = value
+      }
+      if (complete) rows.push(row as { timeStamp: number } & Record<K, number>)
+    }
+    // 只有一个点时无法画出折线，复制一份
+    return rows.length === 1 ? [rows[0], rows[0]] : rows
+  }, [version, serverUuid, fieldsKey])
+}
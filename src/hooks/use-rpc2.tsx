@@ -1,68 +1,86 @@
-import React, { createContext, useContext, useEffect, useState, useCallback } from "react";
-import { RPC2Client } from "../lib/rpc2";
-import type { RPC2ConnectionStateType } from "../lib/rpc2";
-
-const endpoint = "/api/rpc2";
+import React, { createContext, useContext, useEffect, useRef, useState, useCallback } from "react";
+import { SharedClient } from "../lib/komari-backends";
+import type {
+  RPC2BatchCallItem,
+  RPC2CallOptions,
+  RPC2Client,
+  RPC2ConnectionStateType,
+  RPC2EventHandler,
+  RPC2EventMap,
+  RPC2EventName,
+  RPC2Interceptor,
+  RPC2NotificationHandler,
+  RPC2Params,
+} from "../lib/rpc2";
+import type { KomariMethods } from "../types/komari-api";
+
+type KomariMethodName = keyof KomariMethods;
 
 interface RPC2ContextType {
-  client: RPC2Client;
+  client: RPC2Client<KomariMethods>;
   connectionState: RPC2ConnectionStateType;
   isConnected: boolean;
   error: string | null;
+  /** 最近一次心跳的往返延迟（毫秒），未连接时为 null */
+  latency: number | null;
+  /** 当前重连次数，连接成功后归零 */
+  reconnectAttempts: number;
   connect: () => Promise<void>;
   disconnect: () => void;
+  /** 手动重连，立即重新建立连接 */
+  reconnect: () => Promise<void>;
+  /** 注册请求/响应拦截器，返回移除函数 */
+  use: (interceptor: RPC2Interceptor) => () => void;
+}
+
+interface RPC2ProviderProps {
+  children: React.ReactNode;
+  /** 挂载时注册、卸载时移除的拦截器（如自定义日志、鉴权头） */
+  interceptors?: RPC2Interceptor[];
 }
 
 const RPC2Context = createContext<RPC2ContextType | undefined>(undefined);
 
-// 模块级单例，避免在开发环境 StrictMode 或路由切换时产生多个连接
-let __rpc2_singleton__: RPC2Client | null = null;
+// 与其他模块共用同一个客户端，只有最后一个 Provider 卸载时才断开连接
 let __rpc2_refcount = 0;
 
-export const SharedClient = () => {
-  if (!__rpc2_singleton__) {
-    __rpc2_singleton__ = new RPC2Client(endpoint, { autoConnect: true });
-  }
-  return __rpc2_singleton__;
-}
-
-export const RPC2Provider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+export const RPC2Provider: React.FC<RPC2ProviderProps> = ({ children, interceptors }) => {
   // 创建/复用客户端实例，默认启用自动连接
-  const [client] = useState(() => {
-    if (!__rpc2_singleton__) {
-      __rpc2_singleton__ = new RPC2Client(endpoint, { autoConnect: true });
-    }
-    return __rpc2_singleton__;
-  });
+  const [client] = useState(SharedClient);
   const [connectionState, setConnectionState] = useState(client.state);
   const [error, setError] = useState<string | null>(null);
+  const [latency, setLatency] = useState<number | null>(client.latency);
+  const [reconnectAttempts, setReconnectAttempts] = useState(client.reconnectAttempt);
+
+  useEffect(() => {
+    if (!interceptors?.length) return;
+    const ejects = interceptors.map((interceptor) => client.use(interceptor));
+    return () => ejects.forEach((eject) => eject());
+  }, [client, interceptors]);
 
   useEffect(() => {
     __rpc2_refcount++;
-    // 设置事件监听器
-    client.setEventListeners({
-      onConnect: () => {
-        setConnectionState(client.state);
+    // 订阅事件，与其他使用方的订阅互不覆盖
+    const offs = [
+      client.on("stateChange", (state) => setConnectionState(state)),
+      client.on("connect", () => {
+        setReconnectAttempts(0);
         setError(null);
-      },
-      onDisconnect: () => {
-        setConnectionState(client.state);
-      },
-      onError: (err) => {
-        setError(err.message);
-        setConnectionState(client.state);
-      },
-      onReconnecting: (attempt) => {
-        setConnectionState(client.state);
-        console.log(`RPC2 重连尝试 ${attempt}`);
-      },
-      //onMessage: (data) => {
-      //  //console.debug("RPC2 消息:", data);
-      //},
-    });
+      }),
+      client.on("disconnect", () => setLatency(null)),
+      client.on("error", (err) => setError(err.message)),
+      client.on("reconnecting", (attempt, delay) => {
+        setReconnectAttempts(attempt);
+        console.log(`RPC2 重连尝试 ${attempt}，${delay}ms 后进行`);
+      }),
+      client.on("heartbeat", (latency) => setLatency(latency)),
+    ];
+    // 订阅前可能已发生状态变化
+    setConnectionState(client.state);
 
     // 清理函数
     return () => {
+      offs.forEach((off) => off());
       __rpc2_refcount = Math.max(0, __rpc2_refcount - 1);
       // 只有在最后一个 Provider 卸载时才断开连接
       if (__rpc2_refcount === 0) {
@@ -85,6 +103,21 @@ export const RPC2Provider: React.FC<{ children: React.ReactNode }> = ({ children
     client.disconnect();
   };
 
+  const reconnect = async () => {
+    setError(null);
+    const pending = client.reconnect();
+    setReconnectAttempts(0);
+    setLatency(null);
+    try {
+      await pending;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "连接失败");
+      throw err;
+    }
+  };
+
+  const use = useCallback((interceptor: RPC2Interceptor) => client.use(interceptor), [client]);
+
   const isConnected = connectionState === "connected";
 
   return (
@@ -94,8 +127,12 @@ export const RPC2Provider: React.FC<{ children: React.ReactNode }> = ({ children
         connectionState,
         isConnected,
         error,
+        latency,
+        reconnectAttempts,
         connect,
-        disconnect
+        disconnect,
+        reconnect,
+        use,
       }}
     >
       {children}
@@ -116,26 +153,26 @@ export const useRPC2Call = () => {
   const { client, isConnected } = useRPC2();
 
   // 保持稳定引用，避免消费者重复触发副作用
-  const call = useCallback(<TParams = any, TResult = any>(
-    method: string,
-    params?: TParams,
-    options?: any
-  ): Promise<TResult> => client.call(method, params, options), [client]);
-
-  const callViaWebSocket = useCallback(<TParams = any, TResult = any>(
-    method: string,
-    params?: TParams,
-    options?: any
-  ): Promise<TResult> => client.callViaWebSocket(method, params, options), [client]);
-
-  const callViaHTTP = useCallback(<TParams = any, TResult = any>(
-    method: string,
-    params?: TParams,
-    options?: any
-  ): Promise<TResult> => client.callViaHTTP(method, params, options), [client]);
-
-  const batchCall = useCallback((requests: Array<{ method: string; params?: any; notification?: boolean }>) =>
-    client.batchCall(requests), [client]);
+  const call = useCallback(<M extends KomariMethodName>(
+    method: M,
+    params?: RPC2Params<KomariMethods, M>,
+    options?: RPC2CallOptions
+  ) => client.call(method, params, options), [client]);
+
+  const callViaWebSocket = useCallback(<M extends KomariMethodName>(
+    method: M,
+    params?: RPC2Params<KomariMethods, M>,
+    options?: RPC2CallOptions
+  ) => client.callViaWebSocket(method, params, options), [client]);
+
+  const callViaHTTP = useCallback(<M extends KomariMethodName>(
+    method: M,
+    params?: RPC2Params<KomariMethods, M>,
+    options?: RPC2CallOptions
+  ) => client.callViaHTTP(method, params, options), [client]);
+
+  const batchCall = useCallback((requests: RPC2BatchCallItem[], options?: RPC2CallOptions) =>
+    client.batchCall(requests, options), [client]);
 
   return {
     call,
@@ -145,3 +182,30 @@ export const useRPC2Call = () => {
     isConnected,
   };
 }
+
+// 自定义 Hook 用于订阅客户端事件，组件卸载时自动取消订阅
+export const useRPC2Event = <E extends RPC2EventName>(event: E, handler: RPC2EventHandler<E>) => {
+  const { client } = useRPC2();
+  // 始终调用最新的 handler，避免因回调引用变化而反复订阅
+  const handlerRef = useRef(handler);
+  handlerRef.current = handler;
+
+  useEffect(() => {
+    return client.on(event, ((...args: RPC2EventMap[E]) => handlerRef.current(...args)) as RPC2EventHandler<E>);
+  }, [client, event]);
+}
+
+// 自定义 Hook 用于订阅服务端推送的通知，组件卸载时自动取消订阅
+export const useRPC2Subscription = <TParams = any>(
+  method: string,
+  handler: RPC2NotificationHandler<TParams>
+) => {
+  const { client } = useRPC2();
+  // 始终调用最新的 handler，避免因回调引用变化而反复订阅
+  const handlerRef = useRef(handler);
+  handlerRef.current = handler;
+
+  useEffect(() => {
+    return client.subscribe<TParams>(method, (params, notification) => handlerRef.current(params, notification));
+  }, [client, method]);
+}
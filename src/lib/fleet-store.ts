@@ -0,0 +1,124 @@
+import { NezhaServer, NezhaWebsocketResponse } from "@/types/nezha-api"
+
+import { formatNezhaInfo } from "./utils"
+
+// 当前节点状态的共享存储
+// 每次轮询与上一次快照做结构比较，未变化的服务器沿用原对象，订阅方据此只在自己关心的数据变化时重新渲染
+
+export interface FleetEntry {
+  server: NezhaServer
+  online: boolean
+  /** 该服务器数据最近一次变化时的快照时间，配合 formatNezhaInfo 使用 */
+  now: number
+}
+
+/**
+ * 相对上一次快照的变化，可通过结构化克隆在 Worker 与页面之间传递
+ */
+export interface FleetPatch {
+  now: number
+  /** 全部服务器 ID，按快照中的顺序 */
+  ids: number[]
+  /** 数据或在线状态发生变化的服务器 */
+  changed: FleetEntry[]
+}
+
+const isDeepEqual = (a: unknown, b: unknown): boolean => {
+  if (Object.is(a, b)) return true
+  if (typeof a !== "object" || typeof b !== "object" || a === null || b === null) return false
+  if (Array.isArray(a) !== Array.isArray(b)) return false
+
+  const keysA = Object.keys(a)
+  const keysB = Object.keys(b)
+  if (keysA.length !== keysB.length) return false
+  return keysA.every(
+    (key) => Object.prototype.hasOwnProperty.call(b, key) && isDeepEqual((a as Record<string, unknown>)[key], (b as Record<string, unknown>)[key]),
+  )
+}
+
+export class FleetStore {
+  private entries: FleetEntry[] = []
+  private byId = new Map<number, FleetEntry>()
+  private byUuid = new Map<string, FleetEntry>()
+  private listeners = new Set<() => void>()
+  private _now = 0
+  private _ready = false
+
+  /** 是否已收到过快照 */
+  get ready() {
+    return this._ready
+  }
+
+  /** 最近一次快照的时间 */
+  get now() {
+    return this._now
+  }
+
+  /**
+   * 写入新的快照，返回是否有服务器发生变化
+   */
+  update(data: NezhaWebsocketResponse) {
+    return this.apply(this.diff(data))
+  }
+
+  /**
+   * 计算新快照相对当前数据的变化，不修改存储
+   */
+  diff(data: NezhaWebsocketResponse): FleetPatch {
+    const changed: FleetEntry[] = []
+    for (const server of data.servers) {
+      // 在线状态取决于快照时间，即使数据未变也可能因超时而掉线
+      const online = formatNezhaInfo(data.now, server).online
+      const previous = this.byId.get(server.id)
+      if (!previous || previous.online !== online || !isDeepEqual(previous.server, server)) {
+        changed.push({ server, online, now: data.now })
+      }
+    }
+    return { now: data.now, ids: data.servers.map((server) => server.id), changed }
+  }
+
+  /**
+   * 应用 diff 得到的变化，返回是否有服务器发生变化
+   */
+  apply(patch: FleetPatch) {
+    const changedById = new Map(patch.changed.map((entry) => [entry.server.id, entry]))
+    const next: FleetEntry[] = []
+    for (const id of patch.ids) {
+      const entry = changedById.get(id) ?? this.byId.get(id)
+      if (entry) next.push(entry)
+    }
+
+    this._now = patch.now
+    const changed = !this._ready || next.length !== this.entries.length || next.some((entry, index) => entry !== this.entries[index])
+    this._ready = true
+    if (!changed) return false
+
+    this.entries = next
+    this.byId = new Map(next.map((entry) => [entry.server.id, entry]))
+    this.byUuid = new Map(next.map((entry) => [entry.server.uuid, entry]))
+    this.listeners.forEach((listener) => listener())
+    return true
+  }
+
+  getEntries(): FleetEntry[] {
+    return this.entries
+  }
+
+  getEntry(id: number): FleetEntry | undefined {
+    return this.byId.get(id)
+  }
+
+  getEntryByUuid(uuid: string): FleetEntry | undefined {
+    return this.byUuid.get(uuid)
+  }
+
+  subscribe = (listener: () => void) => {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+}
+
+// 全局共享的节点状态，由 WebSocketProvider 应用 Worker 发来的变化
+export const fleetStore = new FleetStore()
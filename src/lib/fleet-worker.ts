@@ -0,0 +1,24 @@
+import { AggregatedKomariNodes, AggregatedKomariNodesStatus } from "@/types/komari-api"
+
+import { FleetPatch } from "./fleet-store"
+import { MetricName } from "./metric-history"
+
+// 页面与节点状态 Worker 之间的消息
+// 页面通过共享的 RPC2 客户端轮询，Komari 到 Nezha 的转换以及与上一次快照的比较在 Worker 中完成，页面只应用变化的部分
+
+export type FleetWorkerRequest =
+  | {
+      type: "nodes"
+      /** 节点列表有更新时发送，之后的状态都按这份列表转换 */
+      nodes: AggregatedKomariNodes
+    }
+  | { type: "status"; status: AggregatedKomariNodesStatus }
+
+export interface FleetWorkerResponse {
+  type: "snapshot"
+  patch: FleetPatch
+  /** 各服务器（按 server.uuid）本次采样的图表指标 */
+  metrics: [string, [MetricName, number][]][]
+}
+
+export const createFleetWorker = () => new Worker(new URL("./fleet.worker.ts", import.meta.url), { type: "module" })
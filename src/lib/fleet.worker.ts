@@ -0,0 +1,33 @@
+import { AggregatedKomariNodes } from "@/types/komari-api"
+
+import { FleetStore } from "./fleet-store"
+import { FleetWorkerRequest, FleetWorkerResponse } from "./fleet-worker"
+import { collectMetrics } from "./metric-history"
+import { persistMetricSnapshot } from "./metric-persistence"
+import { komariToNezhaWebsocketResponse } from "./utils"
+
+// 节点状态 Worker：把页面轮询到的状态转换为 Nezha 格式，与上一次快照比较后只把变化发回页面
+// 指标历史也在这里写入 IndexedDB，页面线程只负责请求与渲染
+
+const post = (message: FleetWorkerResponse) => postMessage(message)
+
+let nodes: AggregatedKomariNodes = {}
+// 保存上一次发出的快照，用于计算变化
+const fleet = new FleetStore()
+
+addEventListener("message", (event: MessageEvent<FleetWorkerRequest>) => {
+  const request = event.data
+  switch (request.type) {
+    case "nodes":
+      nodes = request.nodes
+      break
+    case "status": {
+      const data = komariToNezhaWebsocketResponse(request.status, nodes)
+      const patch = fleet.diff(data)
+      fleet.apply(patch)
+      post({ type: "snapshot", patch, metrics: data.servers.map((server) => [server.uuid, collectMetrics(data.now, server)]) })
+      persistMetricSnapshot(data)
+      break
+    }
+  }
+})
@@ -0,0 +1,131 @@
+// 多 Komari 后端配置
+// 通过全局变量 CustomBackends（JSON 字符串或数组）声明额外的后端，例如：
+// [{ "name": "hk", "label": "香港", "url": "https://hk.example.com" }]
+// url 留空表示当前站点本身（主后端），可用于为主后端指定名称与显示名；其他后端需开启 CORS
+import { KomariMethods } from "@/types/komari-api"
+
+import { createDemoTransport, getDemoNodeCount, isDemoMode } from "./komari-demo"
+import { komariResponseValidators } from "./komari-validators"
+import { RPC2Client, RPC2ConnectionOptions } from "./rpc2"
+
+declare global {
+  interface Window {
+    CustomBackends?: string | KomariBackendConfig[]
+  }
+}
+
+export interface KomariBackendConfig {
+  /** 唯一名称，用于区分来源与生成服务器 ID */
+  name: string
+  /** 显示名，默认同 name */
+  label?: string
+  /** 后端站点地址，留空为当前站点 */
+  url: string
+}
+
+// 主后端（当前站点）的默认名称
+export const PRIMARY_BACKEND = "local"
+
+const isBackendConfig = (value: unknown): value is KomariBackendConfig =>
+  typeof value === "object" &&
+  value !== null &&
+  typeof (value as KomariBackendConfig).name === "string" &&
+  (value as KomariBackendConfig).name !== "" &&
+  typeof (value as KomariBackendConfig).url === "string"
+
+/**
+ * 读取后端配置，返回的第一项总是主后端
+ */
+export const readBackendConfig = (): KomariBackendConfig[] => {
+  let raw: unknown = typeof window === "undefined" ? undefined : window.CustomBackends
+  if (typeof raw === "string") {
+    try {
+      raw = raw ? JSON.parse(raw) : undefined
+    } catch (error) {
+      console.error("CustomBackends 解析失败:", error)
+      raw = undefined
+    }
+  }
+
+  const entries = Array.isArray(raw) ? raw : []
+  let primary: KomariBackendConfig = { name: PRIMARY_BACKEND, url: "" }
+  const extras: KomariBackendConfig[] = []
+  const names = new Set<string>()
+
+  for (const entry of entries) {
+    if (!isBackendConfig(entry)) {
+      console.warn("忽略无效的后端配置:", entry)
+      continue
+    }
+    if (names.has(entry.name)) {
+      console.warn(`后端名称重复，已忽略: ${entry.name}`)
+      continue
+    }
+    names.add(entry.name)
+
+    const url = entry.url.trim().replace(/\/+$/, "")
+    if (url === "") {
+      primary = { ...entry, url: "" }
+    } else {
+      extras.push({ ...entry, url })
+    }
+  }
+
+  return [primary, ...extras.filter((entry) => entry.name !== primary.name)]
+}
+
+const endpoint = "/api/rpc2"
+
+// 仪表盘常驻大屏，断线后应持续重连而不是停留在 HTTP 回退
+// 所有后端的客户端都使用这里生成的配置，演示模式在首次创建客户端时才判断
+const clientOptions = (): RPC2ConnectionOptions => ({
+  autoConnect: true,
+  reconnectForever: true,
+  // 重连期间的轮询等待 WebSocket 恢复，避免在重连前集中发出 HTTP 请求
+  queueWhileConnecting: true,
+  responseValidators: komariResponseValidators,
+  // 演示模式下由本地生成的虚拟节点代替 Komari 后端
+  ...(isDemoMode() ? { transport: createDemoTransport({ nodeCount: getDemoNodeCount() }) } : {}),
+})
+
+// 模块级单例，避免在开发环境 StrictMode 或路由切换时产生多个连接
+let sharedClient: RPC2Client<KomariMethods> | null = null
+
+export const SharedClient = () => {
+  if (!sharedClient) {
+    sharedClient = new RPC2Client<KomariMethods>(endpoint, clientOptions())
+  }
+  return sharedClient
+}
+
+/**
+ * 已配置的 Komari 后端，主后端复用 SharedClient
+ */
+export interface KomariBackend {
+  name: string
+  label: string
+  /** 是否为当前站点（主后端） */
+  primary: boolean
+  client: RPC2Client<KomariMethods>
+}
+
+let backends: KomariBackend[] | null = null
+
+export const getBackends = (): KomariBackend[] => {
+  if (!backends) {
+    const [primary, ...extras] = readBackendConfig()
+    backends = [
+      { name: primary.name, label: primary.label || primary.name, primary: true, client: SharedClient() },
+      // 演示模式只展示本地生成的节点
+      ...(isDemoMode() ? [] : extras).map((config) => ({
+        name: config.name,
+        label: config.label || config.name,
+        primary: false,
+        client: new RPC2Client<KomariMethods>(`${config.url}${endpoint}`, clientOptions()),
+      })),
+    ]
+  }
+  return backends
+}
+
+export const getBackend = (name: string): KomariBackend | undefined => getBackends().find((backend) => backend.name === name)
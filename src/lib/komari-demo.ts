@@ -0,0 +1,295 @@
+import { MemoryTransport } from "@/lib/rpc2"
+import type {
+  KomariMe,
+  KomariMethods,
+  KomariNode,
+  KomariNodeStatus,
+  KomariNodes,
+  KomariNodesStatus,
+  KomariPingRecord,
+  KomariPingTask,
+  KomariPublicInfo,
+  KomariRecordsParams,
+  KomariRecordsResponse,
+  KomariVersion,
+} from "@/types/komari-api"
+
+// 演示模式：无需 Komari 后端，由本地生成的虚拟节点回答 common:* 调用
+// 构建时设置 VITE_DEMO_MODE=true，或访问时带上 ?demo=1 启用；节点数量由 VITE_DEMO_NODES 或 ?demo_nodes= 指定
+
+const DEFAULT_NODE_COUNT = 12
+
+export interface DemoFleetOptions {
+  /** 节点数量 */
+  nodeCount?: number
+  /** 随机种子，相同种子生成相同的节点列表 */
+  seed?: number
+}
+
+const searchParams = () => (typeof window === "undefined" ? new URLSearchParams() : new URLSearchParams(window.location.search))
+
+export const isDemoMode = (): boolean => import.meta.env.VITE_DEMO_MODE === "true" || searchParams().get("demo") === "1"
+
+export const getDemoNodeCount = (): number => {
+  const count = Number(searchParams().get("demo_nodes") || import.meta.env.VITE_DEMO_NODES)
+  return Number.isInteger(count) && count > 0 ? count : DEFAULT_NODE_COUNT
+}
+
+// mulberry32，保证同一种子下节点列表稳定
+const createRandom = (seed: number) => {
+  let state = seed >>> 0
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0
+    let t = state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+const GiB = 1024 ** 3
+
+const REGIONS = [
+  { flag: "🇭🇰", city: "Hong Kong" },
+  { flag: "🇯🇵", city: "Tokyo" },
+  { flag: "🇸🇬", city: "Singapore" },
+  { flag: "🇺🇸", city: "Los Angeles" },
+  { flag: "🇩🇪", city: "Frankfurt" },
+  { flag: "🇬🇧", city: "London" },
+  { flag: "🇳🇱", city: "Amsterdam" },
+  { flag: "🇰🇷", city: "Seoul" },
+  { flag: "🇫🇷", city: "Paris" },
+  { flag: "🇨🇦", city: "Toronto" },
+]
+
+const GROUPS = ["Production", "Edge", "Backup"]
+
+const PLANS = [
+  { cpu_name: "AMD EPYC 7763 64-Core Processor", cpu_cores: 2, mem: 2, disk: 40 },
+  { cpu_name: "Intel(R) Xeon(R) Platinum 8272CL CPU @ 2.60GHz", cpu_cores: 4, mem: 8, disk: 80 },
+  { cpu_name: "AMD Ryzen 9 7950X 16-Core Processor", cpu_cores: 8, mem: 16, disk: 200 },
+  { cpu_name: "Intel(R) Xeon(R) E5-2680 v4 @ 2.40GHz", cpu_cores: 1, mem: 1, disk: 20 },
+]
+
+const SYSTEMS = [
+  { os: "Debian GNU/Linux 12 (bookworm)", kernel_version: "6.1.0-18-amd64", arch: "amd64" },
+  { os: "Ubuntu 24.04 LTS", kernel_version: "6.8.0-31-generic", arch: "amd64" },
+  { os: "Alpine Linux v3.20", kernel_version: "6.6.31-0-virt", arch: "amd64" },
+  { os: "Debian GNU/Linux 12 (bookworm)", kernel_version: "6.1.0-18-arm64", arch: "arm64" },
+]
+
+const BILLING_CYCLES = [30, 90, 180, 365, -1]
+
+const PING_TASKS: Omit<KomariPingTask, "loss">[] = [
+  { id: 1, name: "CT", interval: 60 },
+  { id: 2, name: "CU", interval: 60 },
+  { id: 3, name: "CM", interval: 60 },
+]
+
+// 负载按随机游走波动，并限制在合理区间
+interface LiveState {
+  cpu: number
+  ram: number
+  net_in: number
+  net_out: number
+  net_total_up: number
+  net_total_down: number
+  disk: number
+  baseLatency: number
+  bootedAt: number
+  updatedAt: number
+}
+
+interface DemoNode {
+  node: KomariNode
+  live: LiveState
+  offline: boolean
+}
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value))
+
+const pick = <T>(random: () => number, items: T[]): T => items[Math.floor(random() * items.length)]
+
+const toUuid = (random: () => number) =>
+  "xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx".replace(/[xy]/g, (c) => {
+    const r = Math.floor(random() * 16)
+    return (c === "x" ? r : (r & 0x3) | 0x8).toString(16)
+  })
+
+const createNode = (random: () => number, index: number): DemoNode => {
+  const now = Date.now()
+  const region = pick(random, REGIONS)
+  const plan = pick(random, PLANS)
+  const system = pick(random, SYSTEMS)
+  const billing_cycle = pick(random, BILLING_CYCLES)
+  const created_at = new Date(now - Math.floor(random() * 300 + 30) * 86400000).toISOString()
+  const traffic_limit = random() < 0.6 ? Math.ceil(random() * 4) * 512 * GiB : 0
+
+  const node: KomariNode = {
+    uuid: toUuid(random),
+    name: `${region.city} ${String(index + 1).padStart(2, "0")}`,
+    cpu_name: plan.cpu_name,
+    virtualization: random() < 0.8 ? "kvm" : "lxc",
+    arch: system.arch,
+    cpu_cores: plan.cpu_cores,
+    os: system.os,
+    kernel_version: system.kernel_version,
+    gpu_name: "",
+    region: region.flag,
+    mem_total: plan.mem * GiB,
+    swap_total: random() < 0.5 ? plan.mem * GiB : 0,
+    disk_total: plan.disk * GiB,
+    weight: index,
+    price: billing_cycle === -1 ? -1 : Math.round(random() * 200) / 10 + 2,
+    billing_cycle,
+    auto_renewal: random() < 0.5,
+    currency: random() < 0.5 ? "$" : "¥",
+    expired_at: new Date(now + Math.floor(random() * 365 - 20) * 86400000).toISOString(),
+    group: pick(random, GROUPS),
+    tags: random() < 0.4 ? "<Green>IPLC;Demo" : "Demo",
+    public_remark: "",
+    hidden: false,
+    traffic_limit,
+    traffic_limit_type: traffic_limit ? pick(random, ["sum", "max", "up", "down"]) : "",
+    ipv4: "1",
+    ipv6: random() < 0.6 ? "1" : undefined,
+    created_at,
+    updated_at: created_at,
+  }
+
+  const live: LiveState = {
+    cpu: random() * 30 + 2,
+    ram: node.mem_total * (random() * 0.5 + 0.2),
+    net_in: random() * 2 * 1024 * 1024,
+    net_out: random() * 2 * 1024 * 1024,
+    net_total_up: random() * 200 * GiB,
+    net_total_down: random() * 200 * GiB,
+    disk: node.disk_total * (random() * 0.6 + 0.1),
+    baseLatency: random() * 180 + 20,
+    bootedAt: now - Math.floor(random() * 60 + 1) * 86400000,
+    updatedAt: now,
+  }
+
+  // 约 1/12 的节点离线，用于观察离线样式
+  return { node, live, offline: index > 0 && random() < 1 / 12 }
+}
+
+const advance = (demo: DemoNode, random: () => number): KomariNodeStatus => {
+  const { node, live } = demo
+  const now = Date.now()
+  const elapsed = Math.max(0, (now - live.updatedAt) / 1000)
+
+  live.cpu = clamp(live.cpu + (random() - 0.5) * 12, 0.5, 98)
+  live.ram = clamp(live.ram + (random() - 0.5) * node.mem_total * 0.04, node.mem_total * 0.1, node.mem_total * 0.95)
+  live.net_in = clamp(live.net_in * (0.7 + random() * 0.6) + random() * 64 * 1024, 1024, 120 * 1024 * 1024)
+  live.net_out = clamp(live.net_out * (0.7 + random() * 0.6) + random() * 64 * 1024, 1024, 120 * 1024 * 1024)
+  live.net_total_down += live.net_in * elapsed
+  live.net_total_up += live.net_out * elapsed
+  live.disk = clamp(live.disk + (random() - 0.45) * 1024 * 1024 * 8, node.disk_total * 0.05, node.disk_total * 0.98)
+  live.updatedAt = now
+
+  const load = (live.cpu / 100) * node.cpu_cores
+  return {
+    client: node.uuid,
+    time: new Date(now).toISOString(),
+    cpu: live.cpu,
+    gpu: 0,
+    ram: live.ram,
+    ram_total: node.mem_total,
+    swap: node.swap_total * 0.05,
+    swap_total: node.swap_total,
+    load,
+    load5: load * 0.9,
+    load15: load * 0.8,
+    temp: 0,
+    disk: live.disk,
+    disk_total: node.disk_total,
+    net_in: live.net_in,
+    net_out: live.net_out,
+    net_total_up: live.net_total_up,
+    net_total_down: live.net_total_down,
+    process: Math.round(90 + live.cpu * 2),
+    connections: Math.round(20 + live.net_in / 8192),
+    connections_udp: Math.round(4 + random() * 10),
+    online: true,
+    uptime: Math.floor((now - live.bootedAt) / 1000),
+  }
+}
+
+// 按 [from, to] 生成每个任务的延迟记录，数量不超过 maxCount
+const createPingRecords = (demo: DemoNode, random: () => number, params: KomariRecordsParams): KomariRecordsResponse => {
+  const to = params.end ? Date.parse(params.end) : Date.now()
+  const from = params.start ? Date.parse(params.start) : to - (params.hours ?? 1) * 3600000
+  const perTask = Math.max(1, Math.floor((params.maxCount ?? 2000) / PING_TASKS.length))
+  const points = Math.min(perTask, Math.floor((to - from) / (PING_TASKS[0].interval * 1000)) + 1)
+  const step = points > 1 ? (to - from) / (points - 1) : 0
+
+  const records: KomariPingRecord[] = []
+  const tasks = PING_TASKS.map((task, index) => {
+    const base = demo.live.baseLatency * (1 + index * 0.15)
+    let lost = 0
+    for (let i = 0; i < points; i++) {
+      const time = from + step * i
+      const timeout = random() < 0.01
+      if (timeout) lost++
+      records.push({
+        task_id: task.id,
+        time: new Date(time).toISOString(),
+        // -1 表示超时
+        value: timeout ? -1 : Math.round((base + Math.sin(time / 1800000 + index) * base * 0.1 + random() * 15) * 100) / 100,
+        client: demo.node.uuid,
+      })
+    }
+    return { ...task, loss: points > 0 ? Math.round((lost / points) * 10000) / 100 : 0 }
+  })
+
+  return { count: records.length, records, tasks, from: new Date(from).toISOString(), to: new Date(to).toISOString() }
+}
+
+/**
+ * 生成虚拟节点并返回回答 common:* 方法的内存传输
+ */
+export const createDemoTransport = ({ nodeCount = DEFAULT_NODE_COUNT, seed = 20240601 }: DemoFleetOptions = {}) => {
+  const random = createRandom(seed)
+  const fleet = Array.from({ length: nodeCount }, (_, index) => createNode(random, index))
+  const byUuid = new Map(fleet.map((demo) => [demo.node.uuid, demo]))
+
+  const handlers: { [M in keyof KomariMethods]: (params: KomariMethods[M]["params"]) => KomariMethods[M]["result"] } = {
+    "common:getNodes": (): KomariNodes => Object.fromEntries(fleet.map(({ node }) => [node.uuid, node])),
+    "common:getNodesLatestStatus": (params): KomariNodesStatus => {
+      const wanted = params?.uuids ?? (params?.uuid ? [params.uuid] : null)
+      return Object.fromEntries(
+        fleet
+          .filter((demo) => !demo.offline && (!wanted || wanted.includes(demo.node.uuid)))
+          .map((demo) => [demo.node.uuid, advance(demo, random)]),
+      )
+    },
+    "common:getRecords": (params) => {
+      const demo = params?.uuid ? byUuid.get(params.uuid) : undefined
+      if (!demo || params.type === "load") {
+        return { count: 0, records: [] }
+      }
+      return createPingRecords(demo, random, params)
+    },
+    "common:getPublicInfo": (): KomariPublicInfo => ({
+      sitename: "Komari Demo",
+      description: "Synthetic fleet for theme preview",
+      custom_head: "",
+      custom_body: "",
+      theme: "nezha-dash",
+      theme_settings: null,
+      private_site: false,
+      allow_cors: false,
+      disable_password_login: false,
+      oauth_enable: false,
+      oauth_provider: null,
+      ping_record_preserve_time: 24,
+      record_enabled: true,
+      record_preserve_time: 720,
+    }),
+    "common:getVersion": (): KomariVersion => ({ version: "demo", hash: "demo" }),
+    "common:getMe": (): KomariMe => ({ logged_in: false, username: "", uuid: "" }),
+  }
+
+  return new MemoryTransport({ ...handlers, "rpc.ping": () => "pong" }, { latency: 30 })
+}
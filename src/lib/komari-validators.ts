@@ -0,0 +1,39 @@
+import type { RPC2ResponseValidator } from "@/lib/rpc2"
+import type { KomariMethods } from "@/types/komari-api"
+
+// 轻量的运行时结构校验，只检查后续转换依赖的关键字段，返回问题描述
+
+const isRecord = (value: unknown): value is Record<string, unknown> => typeof value === "object" && value !== null && !Array.isArray(value)
+
+const describe = (value: unknown) => (value === null ? "null" : Array.isArray(value) ? "array" : typeof value)
+
+const expectRecord = (value: unknown): string | null => (isRecord(value) ? null : `应为对象，实际为 ${describe(value)}`)
+
+// 以 uuid 为键的映射，逐项检查
+const expectUuidMap =
+  (check: (uuid: string, item: Record<string, unknown>) => string | null) =>
+  (value: unknown): string | null => {
+    if (!isRecord(value)) return expectRecord(value)
+    for (const [uuid, item] of Object.entries(value)) {
+      if (!isRecord(item)) return `${uuid} 应为对象，实际为 ${describe(item)}`
+      const problem = check(uuid, item)
+      if (problem) return problem
+    }
+    return null
+  }
+
+export const komariResponseValidators: Record<keyof KomariMethods, RPC2ResponseValidator> = {
+  "common:getNodes": expectUuidMap((uuid, node) => (typeof node.uuid === "string" ? null : `${uuid} 缺少 uuid 字段`)),
+  "common:getNodesLatestStatus": expectUuidMap((uuid, status) => (typeof status.time === "string" ? null : `${uuid} 缺少 time 字段`)),
+  "common:getRecords": (value) => {
+    if (Array.isArray(value)) return null
+    if (!isRecord(value)) return expectRecord(value)
+    return Array.isArray(value.records) ? null : "缺少 records 数组"
+  },
+  "common:getPublicInfo": expectRecord,
+  "common:getVersion": (value) => {
+    if (!isRecord(value)) return expectRecord(value)
+    return typeof value.version === "string" ? null : "缺少 version 字段"
+  },
+  "common:getMe": expectRecord,
+}
@@ -0,0 +1,230 @@
+import { NezhaServer } from "@/types/nezha-api"
+
+import { formatNezhaInfo } from "./utils"
+
+// 图表用的内存时序数据，按服务器（server.uuid）与指标分别保存最近的若干个采样点
+// 每次轮询只写入一次，组件通过 hooks/use-metric-history 中的选择器读取，不再反复解析历史快照
+// 更早的数据由 metric-persistence 从 IndexedDB 恢复
+
+declare global {
+  interface Window {
+    /** 每个指标保留的采样点数，默认 30 */
+    CustomMetricHistoryLength?: number | string
+  }
+}
+
+export type MetricName = "cpu" | "process" | "disk" | "mem" | "swap" | "up" | "down" | "tcp" | "udp" | `gpu.${number}`
+
+export interface MetricPoint {
+  timeStamp: number
+  value: number
+}
+
+export const DEFAULT_METRIC_HISTORY_LENGTH = 30
+
+const MINUTE = 60 * 1000
+const HOUR = 60 * MINUTE
+
+// 历史数据的最长保留时间，与 metric-persistence 中最粗粒度的保留期一致
+export const METRIC_HISTORY_RETENTION = 7 * 24 * HOUR
+// 此时长以内的历史按分钟汇总，更早的按小时汇总，与 metric-persistence 的分钟粒度保留期一致
+export const METRIC_MINUTE_RETENTION = 24 * HOUR
+
+/**
+ * 固定容量的环形缓冲区，写满后覆盖最旧的数据
+ */
+class RingBuffer<T> {
+  private items: T[] = []
+  private start = 0
+
+  constructor(private readonly capacity: number) {}
+
+  /** 写入数据，返回被覆盖的最旧数据 */
+  push(item: T): T | undefined {
+    if (this.items.length < this.capacity) {
+      this.items.push(item)
+      return undefined
+    }
+    const evicted = this.items[this.start]
+    this.items[this.start] = item
+    this.start = (this.start + 1) % this.capacity
+    return evicted
+  }
+
+  /** 按时间顺序（旧到新）返回全部数据 */
+  toArray(): T[] {
+    return [...this.items.slice(this.start), ...this.items.slice(0, this.start)]
+  }
+}
+
+interface MetricSeries {
+  buffer: RingBuffer<MetricPoint>
+  // 从本地持久化恢复的更早的数据；之后淘汰的实时数据按分钟、小时汇总后并入，只保留 METRIC_HISTORY_RETENTION 以内的部分
+  history: MetricPoint[]
+  // history 末尾的分钟桶已汇总的点数，为 0 表示末尾不是由实时数据汇总的
+  tailCount: number
+  // 恢复过历史后，环形缓冲区淘汰的数据并入 history，避免与实时数据之间出现断档
+  hydrated: boolean
+  // 缓存的数组快照，写入后失效；保证无变化时返回同一引用
+  snapshot: MetricPoint[] | null
+}
+
+const EMPTY_SERIES: MetricPoint[] = []
+
+const seriesKey = (serverUuid: string, metric: MetricName) => `${serverUuid}:${metric}`
+
+/**
+ * 从服务器状态中提取图表使用的各项指标
+ */
+export function collectMetrics(now: number, server: NezhaServer): [MetricName, number][] {
+  const { cpu, gpu, process, disk, mem, swap, up, down, tcp, udp } = formatNezhaInfo(now, server)
+  return [
+    ["cpu", cpu],
+    ["process", process],
+    ["disk", disk],
+    ["mem", mem],
+    ["swap", swap],
+    ["up", up],
+    ["down", down],
+    ["tcp", tcp],
+    ["udp", udp],
+    ...gpu.map((value, index): [MetricName, number] => [`gpu.${index}`, value]),
+  ]
+}
+
+export class MetricHistoryStore {
+  private series = new Map<string, MetricSeries>()
+  private listeners = new Set<() => void>()
+  private readonly _capacity: number
+  private _version = 0
+
+  constructor(capacity = DEFAULT_METRIC_HISTORY_LENGTH) {
+    this._capacity = normalizeCapacity(capacity)
+  }
+
+  get capacity() {
+    return this._capacity
+  }
+
+  /** 每次写入后递增，可作为外部缓存的失效标记 */
+  get version() {
+    return this._version
+  }
+
+  /**
+   * 写入已提取好的指标，用于 Worker 发来的快照
+   */
+  recordMetrics(now: number, metrics: [string, [MetricName, number][]][]) {
+    for (const [serverUuid, values] of metrics) {
+      for (const [metric, value] of values) {
+        this.push(serverUuid, metric, { timeStamp: now, value })
+      }
+    }
+    this.notify()
+  }
+
+  /**
+   * 写入从本地持久化读取的历史，作为实时数据之前的部分
+   */
+  hydrate(serverUuid: string, series: Partial<Record<MetricName, MetricPoint[]>>) {
+    for (const [metric, points] of Object.entries(series) as [MetricName, MetricPoint[]][]) {
+      const entry = this.ensureSeries(serverUuid, metric)
+      entry.history = [...points].sort((a, b) => a.timeStamp - b.timeStamp)
+      entry.tailCount = 0
+      entry.hydrated = true
+      entry.snapshot = null
+    }
+    this.notify()
+  }
+
+  /**
+   * 读取某台服务器某个指标的历史，按时间升序；数据未变化时返回同一数组
+   */
+  getSeries(serverUuid: string, metric: MetricName): MetricPoint[] {
+    const entry = this.series.get(seriesKey(serverUuid, metric))
+    if (!entry) return EMPTY_SERIES
+    if (!entry.snapshot) {
+      const live = entry.buffer.toArray()
+      const first = live.length > 0 ? live[0].timeStamp : Infinity
+      entry.snapshot = entry.history.length > 0 ? [...entry.history.filter((point) => point.timeStamp < first), ...live] : live
+    }
+    return entry.snapshot
+  }
+
+  subscribe = (listener: () => void) => {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  private ensureSeries(serverUuid: string, metric: MetricName) {
+    const key = seriesKey(serverUuid, metric)
+    let entry = this.series.get(key)
+    if (!entry) {
+      entry = { buffer: new RingBuffer<MetricPoint>(this._capacity), history: [], tailCount: 0, hydrated: false, snapshot: null }
+      this.series.set(key, entry)
+    }
+    return entry
+  }
+
+  private push(serverUuid: string, metric: MetricName, point: MetricPoint) {
+    const entry = this.ensureSeries(serverUuid, metric)
+    const evicted = entry.buffer.push(point)
+    if (evicted && entry.hydrated) {
+      appendHistory(entry, evicted)
+    }
+    entry.snapshot = null
+  }
+
+  private notify() {
+    this._version++
+    this.listeners.forEach((listener) => listener())
+  }
+}
+
+/**
+ * 将淘汰的实时数据按分钟取平均并入历史；开启新的分钟桶时把超过 METRIC_MINUTE_RETENTION 的数据汇总为小时，
+ * 并丢弃超过保留期的数据，使内存中的历史与持久化一样最多约 1440 + 168 个点
+ */
+function appendHistory(entry: MetricSeries, point: MetricPoint) {
+  const { history } = entry
+  const bucket = Math.floor(point.timeStamp / MINUTE) * MINUTE
+  const last = history[history.length - 1]
+  if (last && last.timeStamp === bucket && entry.tailCount > 0) {
+    entry.tailCount++
+    history[history.length - 1] = { timeStamp: bucket, value: last.value + (point.value - last.value) / entry.tailCount }
+    return
+  }
+  // 恢复的历史可能已包含该时间段
+  if (last && last.timeStamp >= bucket) return
+  history.push({ timeStamp: bucket, value: point.value })
+  entry.tailCount = 1
+
+  const expireCutoff = point.timeStamp - METRIC_HISTORY_RETENTION
+  // 按小时对齐，保证同一小时的数据一次性汇总
+  const hourCutoff = Math.floor((point.timeStamp - METRIC_MINUTE_RETENTION) / HOUR) * HOUR
+  const end = history.findIndex((item) => item.timeStamp >= hourCutoff)
+  const buckets = new Map<number, { sum: number; count: number }>()
+  for (const item of history.slice(0, end)) {
+    if (item.timeStamp < expireCutoff) continue
+    const t = Math.floor(item.timeStamp / HOUR) * HOUR
+    const sums = buckets.get(t) ?? { sum: 0, count: 0 }
+    sums.sum += item.value
+    sums.count++
+    buckets.set(t, sums)
+  }
+  history.splice(0, end, ...Array.from(buckets, ([timeStamp, { sum, count }]) => ({ timeStamp, value: sum / count })))
+}
+
+function normalizeCapacity(capacity: number) {
+  return Number.isFinite(capacity) && capacity >= 2 ? Math.floor(capacity) : DEFAULT_METRIC_HISTORY_LENGTH
+}
+
+const readHistoryLength = () => {
+  const raw = typeof window === "undefined" ? undefined : window.CustomMetricHistoryLength
+  return raw === undefined || raw === "" ? DEFAULT_METRIC_HISTORY_LENGTH : Number(raw)
+}
+
+// 全局共享的指标历史，由 WebSocketProvider 写入 Worker 发来的指标
+export const metricHistory = new MetricHistoryStore(readHistoryLength())
@@ -0,0 +1,180 @@
+import { NezhaWebsocketResponse } from "@/types/nezha-api"
+
+import { METRIC_HISTORY_RETENTION, METRIC_MINUTE_RETENTION, MetricName, MetricPoint, collectMetrics, metricHistory } from "./metric-history"
+
+// 将轮询得到的指标写入 IndexedDB，刷新页面后详情图表仍能显示本地积累的历史
+// 最近的数据保留原始精度，更早的数据依次汇总为分钟、小时粒度，超过保留期后删除
+
+const DB_NAME = "nezha-dash-metrics"
+// 版本 2 起以 server.uuid 作为键，旧版本以每次会话分配的数字 ID 为键，无法对应，升级时清空
+const DB_VERSION = 2
+
+type StoreName = "raw" | "minute" | "hour"
+
+interface MetricRecord {
+  /** server.uuid */
+  server: string
+  t: number
+  values: Partial<Record<MetricName, number>>
+}
+
+const MINUTE = 60 * 1000
+const HOUR = 60 * MINUTE
+
+// 各粒度的保留时长，超出后汇总到下一级（或删除）
+const RETENTION: Record<StoreName, number> = {
+  raw: 10 * MINUTE,
+  minute: METRIC_MINUTE_RETENTION,
+  hour: METRIC_HISTORY_RETENTION,
+}
+
+const ROLLUPS: { from: StoreName; to: StoreName | null; bucket: number }[] = [
+  { from: "raw", to: "minute", bucket: MINUTE },
+  { from: "minute", to: "hour", bucket: HOUR },
+  { from: "hour", to: null, bucket: HOUR },
+]
+
+// 汇总的执行间隔
+const COMPACT_INTERVAL = 5 * MINUTE
+
+let dbPromise: Promise<IDBDatabase> | null = null
+let disabled = false
+let lastCompactAt = 0
+
+const requestToPromise = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+
+const transactionDone = (tx: IDBTransaction) =>
+  new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve()
+    tx.onerror = () => reject(tx.error)
+    tx.onabort = () => reject(tx.error)
+  })
+
+const openDatabase = () => {
+  if (!dbPromise) {
+    // 打开失败（如隐私模式禁用 IndexedDB）时不再重试，只保留内存中的历史
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION)
+      request.onupgradeneeded = (event) => {
+        const db = request.result
+        for (const name of Object.keys(RETENTION)) {
+          if (event.oldVersion < 2 && db.objectStoreNames.contains(name)) {
+            db.deleteObjectStore(name)
+          }
+          if (!db.objectStoreNames.contains(name)) {
+            db.createObjectStore(name, { keyPath: ["server", "t"] }).createIndex("t", "t")
+          }
+        }
+      }
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => reject(request.error)
+    }).catch((error) => {
+      disabled = true
+      console.warn("指标历史持久化不可用:", error)
+      throw error
+    })
+  }
+  return dbPromise
+}
+
+const withDatabase = async <T>(action: (db: IDBDatabase) => Promise<T>): Promise<T | undefined> => {
+  if (disabled || typeof indexedDB === "undefined") return undefined
+  try {
+    return await action(await openDatabase())
+  } catch (error) {
+    if (!disabled) console.warn("读写指标历史失败:", error)
+    return undefined
+  }
+}
+
+/**
+ * 写入一次轮询的快照，并按需汇总过期数据
+ */
+export const persistMetricSnapshot = (data: NezhaWebsocketResponse) =>
+  withDatabase(async (db) => {
+    const tx = db.transaction("raw", "readwrite")
+    const store = tx.objectStore("raw")
+    for (const server of data.servers) {
+      const record: MetricRecord = { server: server.uuid, t: data.now, values: Object.fromEntries(collectMetrics(data.now, server)) }
+      store.put(record)
+    }
+    await transactionDone(tx)
+
+    if (data.now - lastCompactAt >= COMPACT_INTERVAL) {
+      lastCompactAt = data.now
+      await compact(db, data.now)
+    }
+  })
+
+/**
+ * 将超出保留期的数据汇总为更粗的粒度
+ */
+const compact = async (db: IDBDatabase, now: number) => {
+  for (const { from, to, bucket } of ROLLUPS) {
+    // 按桶对齐，保证同一个桶的数据一次性汇总
+    const cutoff = Math.floor((now - RETENTION[from]) / bucket) * bucket
+    const tx = db.transaction(to ? [from, to] : [from], "readwrite")
+    const buckets = new Map<string, { server: string; t: number; sums: Record<string, number>; counts: Record<string, number> }>()
+
+    const cursorRequest = tx.objectStore(from).index("t").openCursor(IDBKeyRange.upperBound(cutoff, true))
+    cursorRequest.onsuccess = () => {
+      const cursor = cursorRequest.result
+      if (!cursor) {
+        // 遍历结束后写入汇总结果
+        if (to) {
+          const target = tx.objectStore(to)
+          buckets.forEach(({ server, t, sums, counts }) => {
+            const values = Object.fromEntries(Object.entries(sums).map(([metric, sum]) => [metric, sum / counts[metric]]))
+            target.put({ server, t, values } satisfies MetricRecord)
+          })
+        }
+        return
+      }
+
+      if (to) {
+        const record = cursor.value as MetricRecord
+        const t = Math.floor(record.t / bucket) * bucket
+        const key = `${record.server}:${t}`
+        let entry = buckets.get(key)
+        if (!entry) {
+          entry = { server: record.server, t, sums: {}, counts: {} }
+          buckets.set(key, entry)
+        }
+        for (const [metric, value] of Object.entries(record.values)) {
+          entry.sums[metric] = (entry.sums[metric] ?? 0) + (value ?? 0)
+          entry.counts[metric] = (entry.counts[metric] ?? 0) + 1
+        }
+      }
+      cursor.delete()
+      cursor.continue()
+    }
+
+    await transactionDone(tx)
+  }
+}
+
+/**
+ * 读取某台服务器的本地历史并写入内存中的指标存储
+ */
+export const hydrateMetricHistory = (serverUuid: string) =>
+  withDatabase(async (db) => {
+    const tx = db.transaction(["hour", "minute", "raw"], "readonly")
+    const range = IDBKeyRange.bound([serverUuid, 0], [serverUuid, Number.MAX_SAFE_INTEGER])
+    const results = await Promise.all(
+      (["hour", "minute", "raw"] as StoreName[]).map((name) => requestToPromise(tx.objectStore(name).getAll(range) as IDBRequest<MetricRecord[]>)),
+    )
+
+    const series: Partial<Record<MetricName, MetricPoint[]>> = {}
+    for (const record of results.flat()) {
+      for (const [metric, value] of Object.entries(record.values) as [MetricName, number][]) {
+        const points = series[metric] ?? []
+        points.push({ timeStamp: record.t, value })
+        series[metric] = points
+      }
+    }
+    metricHistory.hydrate(serverUuid, series)
+  })
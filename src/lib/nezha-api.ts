@@ -1,17 +1,16 @@
-import { SharedClient } from "@/hooks/use-rpc2"
+import { SharedClient, getBackend, getBackends } from "@/lib/komari-backends"
+import { KomariPublicInfo, KomariVersion } from "@/types/komari-api"
 import { LoginUserResponse, MonitorResponse, ServerGroupResponse, ServiceResponse, SettingResponse, NezhaMonitor } from "@/types/nezha-api"
 import { DateTime } from "luxon"
 
-import { getKomariNodes, uuidToNumber } from "./utils"
+import { RPC2Error } from "./rpc2"
+import { getKomariNodes, primeKomariNodes, uuidToNumber } from "./utils"
 
 //let lastestRefreshTokenAt = 0
 
-export const fetchServerGroup = async (): Promise<ServerGroupResponse> => {
-  const kmNodes: Record<string, any> = await getKomariNodes()
+export const fetchServerGroup = async (signal?: AbortSignal): Promise<ServerGroupResponse> => {
+  const kmNodes = await getKomariNodes(signal)
 
-  if (kmNodes?.error) {
-    throw new Error(kmNodes.error)
-  }
   // extract groups
   let groups: string[] = []
   Object.entries(kmNodes).forEach(([_, value]) => {
@@ -20,6 +19,23 @@ export const fetchServerGroup = async (): Promise<ServerGroupResponse> => {
     }
   })
 
+  // 配置了多个后端时，每个后端额外作为一个分组，便于按来源筛选
+  const backends = getBackends()
+  const backendGroups =
+    backends.length > 1
+      ? backends.map((backend, index) => ({
+          group: {
+            id: groups.length + index,
+            created_at: DateTime.now().toISO() || "",
+            updated_at: DateTime.now().toISO() || "",
+            name: backend.label,
+          },
+          servers: Object.entries(kmNodes)
+            .filter(([, value]) => value.backend === backend.name)
+            .map(([key]) => key),
+        }))
+      : []
+
   const data: ServerGroupResponse = {
     success: true,
     data: [
@@ -32,18 +48,16 @@ export const fetchServerGroup = async (): Promise<ServerGroupResponse> => {
         },
         servers: Object.entries(kmNodes)
           .filter(([_, value]) => value.group === group)
-          .map(([key, _]) => uuidToNumber(key)),
+          .map(([key, _]) => key),
       })),
+      ...backendGroups,
     ],
   }
   return data
 }
 
-export const fetchLoginUser = async (): Promise<LoginUserResponse> => {
-  const km_me = await SharedClient().call("common:getMe")
-  if (km_me.error) {
-    throw new Error(km_me.error)
-  }
+export const fetchLoginUser = async (signal?: AbortSignal): Promise<LoginUserResponse> => {
+  const km_me = await SharedClient().call("common:getMe", undefined, { signal })
   const data: LoginUserResponse = {
     success: true,
     data: {
@@ -57,29 +71,32 @@ export const fetchLoginUser = async (): Promise<LoginUserResponse> => {
   return data
 }
 // TODO
-export const fetchMonitor = async (server_id: number): Promise<MonitorResponse> => {
+export const fetchMonitor = async (key: string, signal?: AbortSignal): Promise<MonitorResponse> => {
   // 获取 uuid 和服务器名称
-  const km_nodes: Record<string, any> = await getKomariNodes()
-  if (km_nodes?.error) {
-    throw new Error(km_nodes.error)
-  }
-  const uuid = Object.keys(km_nodes).find((id) => uuidToNumber(id) === server_id)
-  if (!uuid) {
+  const km_nodes = await getKomariNodes(signal)
+  // 记录需向节点所属的后端查询
+  const backend = km_nodes[key] ? getBackend(km_nodes[key].backend) : undefined
+  if (!backend) {
     return { success: true, data: [] }
   }
-  const serverName = km_nodes[uuid]?.name || String(server_id)
+  const server_id = uuidToNumber(key)
+  const serverName = km_nodes[key]?.name || key
 
-  const km_monitors: any = await SharedClient().call("common:getRecords", {
-    type: "ping",
-    uuid: uuid,
-    maxCount: 2000,
-    hours: 24,
-  })
+  const km_monitors = await backend.client.call(
+    "common:getRecords",
+    {
+      type: "ping",
+      uuid: km_nodes[key].uuid,
+      maxCount: 2000,
+      hours: 24,
+    },
+    { signal },
+  )
 
   // 将 km_monitors 转换为 NezhaMonitor[]
   const seriesByTask = new Map<number, NezhaMonitor>()
 
-  if (km_monitors && Array.isArray(km_monitors.tasks) && Array.isArray(km_monitors.records)) {
+  if (!Array.isArray(km_monitors) && Array.isArray(km_monitors.tasks) && Array.isArray(km_monitors.records)) {
     for (const task of km_monitors.tasks) {
       seriesByTask.set(task.id, {
         monitor_id: task.id,
@@ -147,32 +164,52 @@ export const fetchMonitor = async (server_id: number): Promise<MonitorResponse>
 
   return { success: true, data }
 }
-// TODO
+// Komari 未提供服务监控与周期流量统计接口，返回空数据
 export const fetchService = async (): Promise<ServiceResponse> => {
-  const response = await SharedClient().call("NoSuchMethod")
-  const data = await response.json()
-  if (data.error) {
-    throw new Error(data.error)
+  return {
+    success: true,
+    data: {
+      services: {},
+      cycle_transfer_stats: {},
+    },
   }
-  return data
 }
 
-export const fetchSetting = async (): Promise<SettingResponse> => {
-  const km_public = await SharedClient().call("common:getPublicInfo")
-  if (km_public.error) {
-    throw new Error(km_public.error)
+export const fetchSetting = async (signal?: AbortSignal): Promise<SettingResponse> => {
+  // 首屏时将主后端的节点列表一并放入同一个批量请求，减少往返
+  const withNodes = !SharedClient().isCached("common:getNodes")
+  const batch = SharedClient().batchCall(
+    [
+      { method: "common:getPublicInfo" },
+      { method: "common:getVersion" },
+      ...(withNodes ? [{ method: "common:getNodes" }] : []),
+    ],
+    // 节点列表会写入共享缓存，不随单个查询取消
+    { signal: withNodes ? undefined : signal },
+  )
+  if (withNodes) {
+    primeKomariNodes(batch.then((res) => (res[2] instanceof RPC2Error ? Promise.reject(res[2]) : res[2])))
+  }
+
+  // 单项失败时结果为 RPC2Error
+  const results = await batch
+  const failed = results.slice(0, 2).find((result) => result instanceof RPC2Error)
+  if (failed) {
+    throw failed
   }
-  const km_version = await SharedClient().call("common:getVersion")
+  const [km_public, km_version] = results as [KomariPublicInfo, KomariVersion]
   const km_data: SettingResponse = {
     success: true,
     data: {
       config: {
-        debug: false,
+        // 主题设置中开启调试后，服务器卡片会提示公开备注的格式问题
+        debug: km_public.theme_settings?.debug === true,
         language: "zh-CN",
         site_name: km_public.sitename,
         user_template: "",
         admin_template: "",
         custom_code: "", // km_public.custom_head 当作为主题时，Komari会自动在Head中插入该代码，留空即可
+        theme_settings: km_public.theme_settings || {},
       },
       version: km_version.version || "unknown",
     },
@@ -1,44 +1,73 @@
 /**
  * RPC2 客户端类
- * 支持通过 WebSocket 和 HTTP POST 调用 JSON-RPC 2.0 接口
+ * 支持通过持久连接（默认 WebSocket）和单次请求（默认 HTTP POST）调用 JSON-RPC 2.0 接口，
+ * 底层传输可通过 transport 选项替换
  */
 //#region RPC2Client
-export class RPC2Client {
-  private ws: WebSocket | null = null;
+export class RPC2Client<TMethods extends RPC2MethodMap = RPC2MethodMap> {
+  private connection: RPC2TransportConnection | null = null;
   private connectionState: RPC2ConnectionStateType = RPC2ConnectionState.DISCONNECTED;
   private requestId = 0;
   private pendingRequests = new Map<string | number, {
-    resolve: (value: any) => void;
+    method: string;
+    resolve: (value: JSONRPC2Response) => void;
     reject: (reason?: any) => void;
     timeout?: NodeJS.Timeout;
   }>();
   private reconnectAttempts = 0;
   private reconnectTimeout?: NodeJS.Timeout;
+  private nextReconnectAt = 0;
+  private connectQueue = new Set<() => void>();
+  // 取消进行中的连接尝试（reconnect/disconnect 时调用）
+  private cancelPendingConnect?: () => void;
   private heartbeatInterval?: NodeJS.Timeout;
+  private heartbeatInFlight = false;
+  private missedHeartbeats = 0;
+  private heartbeatLatency: number | null = null;
+  private lastSuccessInfo: RPC2SuccessInfo | null = null;
   private eventListeners: RPC2EventListeners = {};
- 
-  private readonly baseUrl: string;
+  private eventHandlers = new Map<RPC2EventName, Set<(...args: any[]) => void>>();
+  private subscriptions = new Map<string, Set<RPC2NotificationHandler>>();
+  private interceptors: RPC2Interceptor[] = [];
+  private responseCache = new Map<string, RPC2CacheEntry>();
+
   private readonly options: Required<RPC2ConnectionOptions>;
 
   constructor(
     baseUrl = "/api/rpc2",
     options: RPC2ConnectionOptions = {}
   ) {
-    this.baseUrl = baseUrl;
     this.options = {
       autoConnect: true,
       autoReconnect: true,
       reconnectInterval: 3000,
+      maxReconnectInterval: 60000,
+      reconnectBackoffFactor: 2,
+      reconnectJitter: 0.3,
       maxReconnectAttempts: 5,
+      reconnectForever: false,
+      reconnectOnResume: true,
+      queueWhileConnecting: false,
+      queueGracePeriod: 3000,
+      maxQueueSize: 50,
       requestTimeout: 30000,
       enableHeartbeat: true,
       heartbeatInterval: 15000,
+      heartbeatTimeout: 10000,
+      maxMissedHeartbeats: 2,
       headers: {
         "Content-Type": "application/json",
       },
+      responseValidators: {},
+      transport: combineTransports(new WebSocketTransport(baseUrl), new HTTPTransport(baseUrl)),
       ...options,
     };
 
+    // 网络恢复或页面重新可见时立即重连
+    if (this.options.reconnectOnResume) {
+      this.bindResumeListeners();
+    }
+
     // 自动建立连接
     if (this.options.autoConnect) {
       this.autoConnect();
@@ -52,15 +81,95 @@ export class RPC2Client {
     return this.connectionState;
   }
 
+  /**
+   * 最近一次心跳的往返延迟（毫秒），尚未测得或连接断开时为 null
+   */
+  get latency(): number | null {
+    return this.heartbeatLatency;
+  }
+
+  /**
+   * 当前重连次数，连接成功后归零
+   */
+  get reconnectAttempt(): number {
+    return this.reconnectAttempts;
+  }
+
+  /**
+   * 最近一次成功响应的时间与所用传输方式，尚无成功响应时为 null
+   */
+  get lastSuccess(): RPC2SuccessInfo | null {
+    return this.lastSuccessInfo;
+  }
+
   /**
    * 设置事件监听器
+   * @deprecated 每个事件只保留一个回调，会覆盖其他使用方设置的回调；请改用 on/off
    */
   setEventListeners(listeners: RPC2EventListeners): void {
     this.eventListeners = { ...this.eventListeners, ...listeners };
   }
 
   /**
-   * 建立 WebSocket 连接
+   * 订阅客户端事件，同一事件可有多个订阅者；返回取消订阅函数
+   */
+  on<E extends RPC2EventName>(event: E, handler: RPC2EventHandler<E>): () => void {
+    let handlers = this.eventHandlers.get(event);
+    if (!handlers) {
+      handlers = new Set();
+      this.eventHandlers.set(event, handlers);
+    }
+    handlers.add(handler as (...args: any[]) => void);
+    return () => this.off(event, handler);
+  }
+
+  /**
+   * 取消订阅客户端事件
+   */
+  off<E extends RPC2EventName>(event: E, handler: RPC2EventHandler<E>): void {
+    const handlers = this.eventHandlers.get(event);
+    if (!handlers) return;
+
+    handlers.delete(handler as (...args: any[]) => void);
+    if (handlers.size === 0) {
+      this.eventHandlers.delete(event);
+    }
+  }
+
+  /**
+   * 订阅服务端推送的通知（无 id 的 JSON-RPC 请求），按方法名分发
+   * 返回取消订阅函数
+   */
+  subscribe<TParams = any>(method: string, handler: RPC2NotificationHandler<TParams>): () => void {
+    let handlers = this.subscriptions.get(method);
+    if (!handlers) {
+      handlers = new Set();
+      this.subscriptions.set(method, handlers);
+    }
+    handlers.add(handler as RPC2NotificationHandler);
+    return () => this.unsubscribe(method, handler);
+  }
+
+  /**
+   * 取消订阅；未传入 handler 时移除该方法下的全部订阅
+   */
+  unsubscribe<TParams = any>(method: string, handler?: RPC2NotificationHandler<TParams>): void {
+    const handlers = this.subscriptions.get(method);
+    if (!handlers) return;
+
+    if (handler) {
+      handlers.delete(handler as RPC2NotificationHandler);
+    } else {
+      handlers.clear();
+    }
+
+    if (handlers.size === 0) {
+      this.subscriptions.delete(method);
+    }
+  }
+
+  /**
+   * 建立持久连接（默认 WebSocket）
    */
   async connect(): Promise<void> {
     if (this.connectionState === RPC2ConnectionState.CONNECTED || 
@@ -68,50 +177,107 @@ export class RPC2Client {
       return;
     }
 
+    const transport = this.options.transport;
+    if (!transport.connect) {
+      throw new RPC2Error(RPC2ClientErrorCode.NOT_CONNECTED, "当前传输不支持持久连接", { transport: "ws" });
+    }
+
     this.setConnectionState(RPC2ConnectionState.CONNECTING);
 
+    const superseded = new RPC2Error(RPC2ClientErrorCode.NETWORK_ERROR, "连接尝试已取消", { transport: "ws" });
     try {
-      const wsUrl = this.getWebSocketUrl();
-      const ws = new WebSocket(wsUrl);
-      this.ws = ws;
-      this.setupWebSocketHandlers();
-
-      // 等待连接建立（不覆盖已设置的处理器，避免丢失心跳与状态更新）
+      // 等待连接建立；回调中忽略已被替换的旧连接
       await new Promise<void>((resolve, reject) => {
-        const handleOpen = () => {
-          cleanup();
-          resolve();
-        };
-        const handleError = () => {
-          cleanup();
-          reject(new Error("WebSocket 连接失败"));
+        let settled = false;
+        const cancel = () => settle(superseded);
+        const settle = (error?: Error) => {
+          if (settled) return;
+          settled = true;
+          clearTimeout(timeout);
+          if (this.cancelPendingConnect === cancel) {
+            this.cancelPendingConnect = undefined;
+          }
+          if (error) {
+            reject(error);
+          } else {
+            resolve();
+          }
         };
+        // 超时后关闭半开的连接，按连接断开的正常流程安排重连
         const timeout = setTimeout(() => {
-          cleanup();
-          reject(new Error("WebSocket 连接超时"));
+          if (this.connection !== connection) return;
+          this.connection = null;
+          connection.close();
+          settle(new Error("WebSocket 连接超时"));
+          this.handleClose();
         }, 10000);
-
-        const cleanup = () => {
-          clearTimeout(timeout);
-          ws.removeEventListener("open", handleOpen);
-          ws.removeEventListener("error", handleError);
-        };
-
-        ws.addEventListener("open", handleOpen, { once: true });
-        ws.addEventListener("error", handleError, { once: true });
+        this.cancelPendingConnect = cancel;
+
+        const connection = transport.connect!({
+          onOpen: () => {
+            if (this.connection !== connection) return;
+            this.handleOpen();
+            settle();
+          },
+          onMessage: (data) => {
+            if (this.connection !== connection) return;
+            this.handleFrame(data);
+          },
+          onClose: () => {
+            if (this.connection !== connection) return;
+            this.connection = null;
+            settle(new Error("WebSocket 连接失败"));
+            this.handleClose();
+          },
+          onError: (error) => {
+            if (this.connection !== connection) return;
+            this.emit("error", error);
+            settle(new Error("WebSocket 连接失败"));
+          },
+        });
+        this.connection = connection;
       });
     } catch (error) {
-      this.setConnectionState(RPC2ConnectionState.ERROR);
-      this.eventListeners.onError?.(error as Error);
+      // 被 reconnect/disconnect 取消的尝试由新的流程接管，不改变状态也不报告错误
+      if (error === superseded) {
+        throw error;
+      }
+      // 连接关闭时已进入重连流程，不覆盖重连状态
+      if (this.state === RPC2ConnectionState.CONNECTING) {
+        this.setConnectionState(RPC2ConnectionState.ERROR);
+      }
+      this.emit("error", error as Error);
       throw error;
     }
   }
 
+  /**
+   * 手动重连：放弃当前连接与重连计时，立即重新建立连接
+   */
+  reconnect(): Promise<void> {
+    if (this.reconnectTimeout) {
+      clearTimeout(this.reconnectTimeout);
+      this.reconnectTimeout = undefined;
+    }
+    this.reconnectAttempts = 0;
+    this.cancelPendingConnect?.();
+
+    const connection = this.connection;
+    if (connection) {
+      this.connection = null;
+      connection.close();
+      this.stopHeartbeat();
+      this.clearPendingRequests(new RPC2Error(RPC2ClientErrorCode.NETWORK_ERROR, "连接已重置", { transport: "ws" }));
+    }
+    this.setConnectionState(RPC2ConnectionState.DISCONNECTED);
+    return this.connect();
+  }
+
   /**
    * 自动建立连接（非阻塞）
    */
   private autoConnect(): void {
-    if (this.connectionState !== RPC2ConnectionState.DISCONNECTED) {
+    if (this.connectionState !== RPC2ConnectionState.DISCONNECTED || !this.options.transport.connect) {
       return;
     }
 
@@ -123,238 +289,474 @@ export class RPC2Client {
   }
 
   /**
-   * 断开 WebSocket 连接
+   * 断开持久连接
    */
   disconnect(): void {
     this.options.autoReconnect = false;
+    this.unbindResumeListeners();
     if (this.reconnectTimeout) {
       clearTimeout(this.reconnectTimeout);
       this.reconnectTimeout = undefined;
     }
 
     // 清理心跳包定时器
-    if (this.heartbeatInterval) {
-      clearInterval(this.heartbeatInterval);
-      this.heartbeatInterval = undefined;
-    }
+    this.stopHeartbeat();
+    this.cancelPendingConnect?.();
 
-    if (this.ws) {
-      this.ws.close();
-      this.ws = null;
+    const connection = this.connection;
+    if (connection) {
+      this.connection = null;
+      connection.close();
     }
 
     this.setConnectionState(RPC2ConnectionState.DISCONNECTED);
-    this.clearPendingRequests(new Error("连接已断开"));
+    if (connection) {
+      this.emit("disconnect");
+    }
+    this.clearPendingRequests(new RPC2Error(RPC2ClientErrorCode.NETWORK_ERROR, "连接已断开", { transport: "ws" }));
+    // 排队中的调用改走 HTTP
+    this.flushConnectQueue();
   }
 
   /**
    * 通过 WebSocket 调用 RPC 方法
    */
-  async callViaWebSocket<TParams = any, TResult = any>(
-    method: string,
-    params?: TParams,
+  async callViaWebSocket<M extends RPC2MethodName<TMethods>>(
+    method: M,
+    params?: RPC2Params<TMethods, M>,
     options: RPC2CallOptions = {}
-  ): Promise<TResult> {
+  ): Promise<RPC2Result<TMethods, M>> {
+    type TParams = RPC2Params<TMethods, M>;
+    type TResult = RPC2Result<TMethods, M>;
     if (this.connectionState !== RPC2ConnectionState.CONNECTED) {
-      throw new Error("WebSocket 未连接");
+      throw new RPC2Error(RPC2ClientErrorCode.NOT_CONNECTED, "WebSocket 未连接", { method, transport: "ws" });
     }
+    throwIfAborted(method, "ws", options.signal);
 
-    const request: JSONRPC2Request<TParams> = {
+    const context = this.createInterceptorContext("ws", false);
+    const request = await this.interceptRequest<JSONRPC2Request<TParams>>({
       jsonrpc: "2.0",
       method,
       params,
       id: options.notification ? undefined : this.generateRequestId(),
-    };
+    }, context);
 
     if (options.notification) {
       // 通知请求，不期望响应
-      this.sendMessage(request);
+      this.sendMessage(request, method);
       return undefined as TResult;
     }
 
-    return new Promise<TResult>((resolve, reject) => {
-      const timeout = setTimeout(() => {
-        this.pendingRequests.delete(request.id!);
-        reject(new Error(`请求超时: ${method}`));
-      }, options.timeout || this.options.requestTimeout);
-
-      this.pendingRequests.set(request.id!, {
-        resolve,
-        reject,
-        timeout,
-      });
-
-      this.sendMessage(request);
-    });
+    const response = this.waitForResponse<TResult>(
+      request.id!,
+      method,
+      options.timeout || this.options.requestTimeout,
+      options.signal
+    );
+    try {
+      this.sendMessage(request, method);
+    } catch (error) {
+      this.rejectPending(request.id!, error as Error);
+    }
+    return this.settleResponse(response, request, context);
   }
 
   /**
-   * 通过 HTTP POST 调用 RPC 方法
+   * 通过单次请求（默认 HTTP POST）调用 RPC 方法
    */
-  async callViaHTTP<TParams = any, TResult = any>(
-    method: string,
-    params?: TParams,
+  async callViaHTTP<M extends RPC2MethodName<TMethods>>(
+    method: M,
+    params?: RPC2Params<TMethods, M>,
     options: RPC2CallOptions = {}
-  ): Promise<TResult> {
-    const request: JSONRPC2Request<TParams> = {
+  ): Promise<RPC2Result<TMethods, M>> {
+    type TParams = RPC2Params<TMethods, M>;
+    type TResult = RPC2Result<TMethods, M>;
+    const context = this.createInterceptorContext("http", false);
+    let request: JSONRPC2Request<TParams> = {
       jsonrpc: "2.0",
       method,
       params,
       id: options.notification ? undefined : this.generateRequestId(),
     };
 
+    let jsonResponse: JSONRPC2Response<TResult>;
     try {
-      const response = await fetch(this.baseUrl, {
-        method: "POST",
-        headers: this.options.headers,
-        body: JSON.stringify(request),
-        signal: options.timeout ? AbortSignal.timeout(options.timeout) : undefined,
-      });
-
-      if (!response.ok) {
-        throw new Error(`HTTP ${response.status}: ${response.statusText}`);
-      }
+      request = await this.interceptRequest(request, context);
+      const body = await this.sendRequest(request, method, context, options);
 
       if (options.notification) {
         return undefined as TResult;
       }
+      if (!body) {
+        throw new RPC2Error(RPC2ClientErrorCode.INVALID_RESPONSE, `响应为空: ${method}`, { method, transport: "http" });
+      }
+
+      jsonResponse = body as JSONRPC2Response<TResult>;
+    } catch (error) {
+      const rpcError = normalizeHTTPError(error, method, options.signal);
+      this.interceptError(rpcError, request, context);
+      throw rpcError;
+    }
+
+    return this.settleResponse(jsonResponse, request, context);
+  }
+
+  /**
+   * 批量调用（优先通过 WebSocket 发送单个批量帧，传输失败时回退 HTTP）
+   * 返回结果与 requests 顺序一一对应，通知请求的结果为 undefined；
+   * 单项的 JSON-RPC 错误以 RPC2Error 放在该项的位置，不影响其他项
+   */
+  async batchCall(requests: RPC2BatchCallItem[], options: RPC2CallOptions = {}): Promise<any[]> {
+    if (requests.length === 0) {
+      return [];
+    }
+
+    if (this.shouldQueue(options)) {
+      await this.waitForConnection("batch", options.signal);
+    }
+
+    let results: any[] | undefined;
+    if (this.connectionState === RPC2ConnectionState.CONNECTED) {
+      try {
+        results = await this.batchCallViaWebSocket(requests, options);
+      } catch (wsErr) {
+        // 调用方主动取消时不再回退
+        if (options.signal?.aborted || !isTransportFailure(wsErr)) {
+          throw wsErr;
+        }
+        // 回退一次 HTTP
+      }
+    }
+    results ??= await this.batchCallViaHTTP(requests, options);
 
-      const jsonResponse: JSONRPC2Response<TResult> = await response.json();
-      
-      if ("error" in jsonResponse) {
-        throw new Error(`RPC Error ${jsonResponse.error.code}: ${jsonResponse.error.message}`);
+    requests.forEach((req, index) => {
+      if (!req.notification && !(results[index] instanceof RPC2Error)) {
+        this.validateResult(req.method, results[index]);
       }
+    });
+    return results;
+  }
+
+  /**
+   * 通过 WebSocket 发送批量请求，按 id 匹配各自的响应
+   */
+  async batchCallViaWebSocket(requests: RPC2BatchCallItem[], options: RPC2CallOptions = {}): Promise<any[]> {
+    if (this.connectionState !== RPC2ConnectionState.CONNECTED) {
+      throw new RPC2Error(RPC2ClientErrorCode.NOT_CONNECTED, "WebSocket 未连接", { method: "batch", transport: "ws" });
+    }
+    throwIfAborted("batch", "ws", options.signal);
+
+    const context = this.createInterceptorContext("ws", true);
+    const batchRequest = await Promise.all(
+      this.buildBatchRequest(requests).map((req) => this.interceptRequest(req, context))
+    );
+    const responses = batchRequest.map((req) =>
+      req.id == null
+        ? null
+        : this.waitForResponse(req.id, req.method, options.timeout || this.options.requestTimeout, options.signal)
+    );
 
-      return jsonResponse.result;
+    try {
+      this.sendMessage(batchRequest, "batch");
     } catch (error) {
-      if (error instanceof Error) {
-        throw error;
+      // 发送失败，撤销已登记的等待项
+      for (const req of batchRequest) {
+        if (req.id != null) {
+          this.rejectPending(req.id, error as Error);
+        }
       }
-      throw new Error(`请求失败: ${method}`);
+      await Promise.allSettled(responses);
+      throw error;
     }
+
+    return Promise.all(
+      batchRequest.map((req, index) => {
+        const response = responses[index];
+        return response ? this.settleBatchItem(response, req, context) : undefined;
+      })
+    );
   }
 
   /**
-   * 批量调用（仅支持 HTTP）
+   * 通过单次请求（默认 HTTP POST）发送批量请求
    */
-  async batchCall(requests: Array<{
-    method: string;
-    params?: any;
-    notification?: boolean;
-  }>): Promise<any[]> {
-    const batchRequest: JSONRPC2BatchRequest = requests.map(req => ({
-      jsonrpc: "2.0",
-      method: req.method,
-      params: req.params,
-      id: req.notification ? undefined : this.generateRequestId(),
-    }));
+  async batchCallViaHTTP(requests: RPC2BatchCallItem[], options: RPC2CallOptions = {}): Promise<any[]> {
+    const context = this.createInterceptorContext("http", true);
+    let batchRequest = this.buildBatchRequest(requests);
 
+    let jsonResponse: JSONRPC2BatchResponse;
     try {
-      const response = await fetch(this.baseUrl, {
-        method: "POST",
-        headers: this.options.headers,
-        body: JSON.stringify(batchRequest),
-      });
+      batchRequest = await Promise.all(batchRequest.map((req) => this.interceptRequest(req, context)));
+      const body = await this.sendRequest(batchRequest, "batch", context, options);
 
-      if (!response.ok) {
-        throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+      // 全部为通知时服务端不返回内容
+      if (batchRequest.every((req) => req.id == null)) {
+        return batchRequest.map(() => undefined);
+      }
+      if (!Array.isArray(body)) {
+        throw new RPC2Error(RPC2ClientErrorCode.INVALID_RESPONSE, "批量响应格式异常", { method: "batch", transport: "http" });
       }
 
-      const jsonResponse: JSONRPC2BatchResponse = await response.json();
-      
-      return jsonResponse.map(res => {
-        if ("error" in res) {
-          throw new Error(`RPC Error ${res.error.code}: ${res.error.message}`);
-        }
-        return res.result;
-      });
+      jsonResponse = body;
     } catch (error) {
-      if (error instanceof Error) {
-        throw error;
-      }
-      throw new Error("批量请求失败");
+      const rpcError = normalizeHTTPError(error, "batch", options.signal);
+      batchRequest.forEach((req) => this.interceptError(rpcError, req, context));
+      throw rpcError;
     }
+
+    // 规范不保证响应顺序，按 id 匹配
+    const byId = new Map(jsonResponse.map((res) => [res.id, res]));
+
+    return Promise.all(
+      batchRequest.map((req) => {
+        if (req.id == null) return undefined;
+        const res = byId.get(req.id);
+        const response = res
+          ? res
+          : Promise.reject(new RPC2Error(RPC2ClientErrorCode.INVALID_RESPONSE, `批量响应缺失: ${req.method}`, {
+            method: req.method,
+            transport: "http",
+          }));
+        return this.settleBatchItem(response, req, context);
+      })
+    );
+  }
+
+  /**
+   * 注册拦截器，按注册顺序依次执行；返回移除函数
+   */
+  use(interceptor: RPC2Interceptor): () => void {
+    this.interceptors.push(interceptor);
+    return () => {
+      this.interceptors = this.interceptors.filter((item) => item !== interceptor);
+    };
   }
 
   /**
    * 自动选择调用方式（优先使用 WebSocket）
+   * 传入 dedupe 或 cacheTTL 时，相同方法与参数的调用共享进行中的请求或缓存结果
    */
-  async call<TParams = any, TResult = any>(
-    method: string,
-    params?: TParams,
+  async call<M extends RPC2MethodName<TMethods>>(
+    method: M,
+    params?: RPC2Params<TMethods, M>,
     options: RPC2CallOptions = {}
-  ): Promise<TResult> {
+  ): Promise<RPC2Result<TMethods, M>> {
+    if (!options.notification && (options.dedupe || options.cacheTTL)) {
+      return this.callCached(method, params, options);
+    }
+    return this.performCall(method, params, options);
+  }
+
+  /**
+   * 是否存在未过期的缓存结果或进行中的共享请求
+   */
+  isCached<M extends RPC2MethodName<TMethods>>(method: M, params?: RPC2Params<TMethods, M>): boolean {
+    const entry = this.responseCache.get(getCacheKey(method, params));
+    return !!entry && (!!entry.promise || entry.expiresAt > Date.now());
+  }
+
+  /**
+   * 同步读取最近一次缓存的结果（可能已过期），不存在时返回 undefined
+   */
+  getCached<M extends RPC2MethodName<TMethods>>(
+    method: M,
+    params?: RPC2Params<TMethods, M>
+  ): RPC2Result<TMethods, M> | undefined {
+    const entry = this.responseCache.get(getCacheKey(method, params));
+    return entry && "value" in entry ? entry.value : undefined;
+  }
+
+  /**
+   * 以外部发起的请求（如批量调用中的一项）填充缓存，期间相同调用复用该请求
+   */
+  setCached<M extends RPC2MethodName<TMethods>>(
+    method: M,
+    params: RPC2Params<TMethods, M> | undefined,
+    pending: Promise<RPC2Result<TMethods, M>>,
+    ttl: number
+  ): Promise<RPC2Result<TMethods, M>> {
+    const key = getCacheKey(method, params);
+    const previous = this.responseCache.get(key);
+    const entry: RPC2CacheEntry = { expiresAt: 0 };
+    if (previous && "value" in previous) {
+      // 保留旧值，刷新期间仍可同步读取
+      entry.value = previous.value;
+    }
+
+    entry.promise = pending.then(
+      (value) => {
+        // 期间被失效或替换时不写回
+        if (this.responseCache.get(key) === entry) {
+          entry.promise = undefined;
+          if (ttl > 0) {
+            entry.value = value;
+            entry.expiresAt = Date.now() + ttl;
+          } else {
+            this.responseCache.delete(key);
+          }
+        }
+        return value;
+      },
+      (error) => {
+        // 失败不污染缓存，保留旧值以便下次重试
+        if (this.responseCache.get(key) === entry) {
+          entry.promise = undefined;
+          if (!("value" in entry)) {
+            this.responseCache.delete(key);
+          }
+        }
+        throw error;
+      }
+    );
+    // 失败由调用方处理，这里仅避免无人等待时产生未处理的 rejection
+    entry.promise.catch(() => {});
+
+    this.responseCache.set(key, entry);
+    return entry.promise;
+  }
+
+  /**
+   * 失效缓存：不传参数时清空全部；仅传方法名时清除该方法的全部缓存
+   */
+  invalidate<M extends RPC2MethodName<TMethods>>(method?: M, ...params: [RPC2Params<TMethods, M>?]): void {
+    if (method === undefined) {
+      this.responseCache.clear();
+      return;
+    }
+    if (params.length > 0) {
+      this.responseCache.delete(getCacheKey(method, params[0]));
+      return;
+    }
+    for (const key of [...this.responseCache.keys()]) {
+      if (key.startsWith(`${method}:`)) {
+        this.responseCache.delete(key);
+      }
+    }
+  }
+
+  private callCached<M extends RPC2MethodName<TMethods>>(
+    method: M,
+    params: RPC2Params<TMethods, M> | undefined,
+    options: RPC2CallOptions
+  ): Promise<RPC2Result<TMethods, M>> {
+    const entry = this.responseCache.get(getCacheKey(method, params));
+    if (entry && !entry.promise && entry.expiresAt > Date.now()) {
+      return Promise.resolve(entry.value);
+    }
+
+    // 共享请求不随单个调用方取消，调用方的 signal 只影响自己的等待
+    const shared = entry?.promise ??
+      this.setCached(method, params, this.performCall(method, params, { ...options, signal: undefined }), options.cacheTTL ?? 0);
+    return raceSignal(shared, method, options.signal);
+  }
+
+  private async performCall<M extends RPC2MethodName<TMethods>>(
+    method: M,
+    params: RPC2Params<TMethods, M> | undefined,
+    options: RPC2CallOptions
+  ): Promise<RPC2Result<TMethods, M>> {
     // 如果启用了自动连接，且当前未连接，尝试建立连接（不阻塞使用 HTTP 回退）
     if (this.options.autoConnect && 
         this.connectionState === RPC2ConnectionState.DISCONNECTED) {
       this.autoConnect();
     }
 
+    // 连接/重连即将完成时，先排队等待 WebSocket，超过宽限期再回退 HTTP
+    if (this.shouldQueue(options)) {
+      await this.waitForConnection(method, options.signal);
+    }
+
     // 策略：
-    // 1) WS 已连接 → 尝试 WS；失败则回退一次 HTTP
+    // 1) WS 已连接 → 尝试 WS；传输失败则回退一次 HTTP
     // 2) 其他状态（未连/连接中/重连中/错误）→ 直接 HTTP
+    let result: RPC2Result<TMethods, M>;
     if (this.connectionState === RPC2ConnectionState.CONNECTED) {
       try {
-        return await this.callViaWebSocket(method, params, options);
+        result = await this.callViaWebSocket(method, params, options);
       } catch (wsErr) {
-        // 回退一次 HTTP
-        try {
-          return await this.callViaHTTP(method, params, options);
-        } catch (httpErr) {
-          // HTTP 也失败，抛出 HTTP 错误（信息更贴近最终失败原因）
-          throw httpErr;
+        // 调用方主动取消，或服务端已返回错误响应时不再回退，避免同一请求执行两次
+        if (options.signal?.aborted || !isTransportFailure(wsErr)) {
+          throw wsErr;
         }
+        // 回退一次 HTTP；HTTP 也失败时抛出 HTTP 错误（信息更贴近最终失败原因）
+        result = await this.callViaHTTP(method, params, options);
       }
+    } else {
+      // 未连或重连等情况下，直接使用 HTTP
+      result = await this.callViaHTTP(method, params, options);
     }
 
-    // 未连或重连等情况下，直接使用 HTTP
-    return this.callViaHTTP(method, params, options);
+    if (!options.notification) {
+      this.validateResult(method, result);
+    }
+    return result;
   }
 
-  private getWebSocketUrl(): string {
-    const protocol = window.location.protocol === "https:" ? "wss:" : "ws:";
-    const host = window.location.host;
-    return `${protocol}//${host}${this.baseUrl}`;
-  }
+  private sendRequest(
+    message: JSONRPC2Request | JSONRPC2BatchRequest,
+    method: string,
+    context: RPC2InterceptorContext,
+    options: RPC2CallOptions
+  ): Promise<unknown> {
+    const transport = this.options.transport;
+    if (!transport.request) {
+      throw new RPC2Error(RPC2ClientErrorCode.NOT_CONNECTED, "当前传输不支持单次请求", { method, transport: "http" });
+    }
 
-  private setupWebSocketHandlers(): void {
-    if (!this.ws) return;
+    return transport.request(message, {
+      method,
+      headers: context.headers,
+      signal: mergeSignals(options.signal, options.timeout ? AbortSignal.timeout(options.timeout) : undefined),
+    });
+  }
 
-    this.ws.onopen = () => {
-      this.setConnectionState(RPC2ConnectionState.CONNECTED);
-      this.reconnectAttempts = 0;
-      this.startHeartbeat(); // 启动心跳包
-      this.eventListeners.onConnect?.();
-    };
+  private handleOpen(): void {
+    this.setConnectionState(RPC2ConnectionState.CONNECTED);
+    this.reconnectAttempts = 0;
+    this.startHeartbeat(); // 启动心跳包
+    this.emit("connect");
+    // 放行排队中的调用，经 WebSocket 发送
+    this.flushConnectQueue();
+  }
 
-    this.ws.onmessage = (event) => {
-      try {
-        const data = JSON.parse(event.data);
+  private handleFrame(frame: string): void {
+    try {
+      const data = JSON.parse(frame);
+      // 批量响应为数组帧，逐条处理
+      if (Array.isArray(data)) {
+        data.forEach((item) => this.handleMessage(item));
+      } else {
         this.handleMessage(data);
-        this.eventListeners.onMessage?.(data);
-      } catch (error) {
-        console.error("解析 WebSocket 消息失败:", error);
       }
-    };
+      this.emit("message", data);
+    } catch (error) {
+      console.error("解析 WebSocket 消息失败:", error);
+    }
+  }
 
-    this.ws.onclose = () => {
-      this.setConnectionState(RPC2ConnectionState.DISCONNECTED);
-      this.stopHeartbeat(); // 停止心跳包
-      this.eventListeners.onDisconnect?.();
-      
-      if (this.options.autoReconnect && 
-          this.reconnectAttempts < this.options.maxReconnectAttempts) {
-        this.attemptReconnect();
-      }
-    };
+  private handleClose(): void {
+    this.setConnectionState(RPC2ConnectionState.DISCONNECTED);
+    this.stopHeartbeat(); // 停止心跳包
+    this.emit("disconnect");
 
-    this.ws.onerror = (error) => {
-      console.error("WebSocket 错误:", error);
-      this.eventListeners.onError?.(new Error("WebSocket 连接错误"));
-    };
+    if (this.options.autoReconnect &&
+        (this.options.reconnectForever || this.reconnectAttempts < this.options.maxReconnectAttempts)) {
+      this.attemptReconnect();
+    } else {
+      // 不再重连，排队中的调用改走 HTTP
+      this.flushConnectQueue();
+    }
   }
 
-  private handleMessage(data: JSONRPC2Response): void {
+  private handleMessage(data: JSONRPC2Response | JSONRPC2Request): void {
+    // 服务端推送的通知：带 method 且无 id
+    if ("method" in data) {
+      if (data.id == null) {
+        this.dispatchNotification(data);
+      }
+      return;
+    }
+
     if (!data.id) return; // 忽略通知响应
 
     const pending = this.pendingRequests.get(data.id);
@@ -366,90 +768,563 @@ export class RPC2Client {
       clearTimeout(pending.timeout);
     }
 
-    if ("error" in data) {
-      pending.reject(new Error(`RPC Error ${data.error.code}: ${data.error.message}`));
-    } else {
-      pending.resolve(data.result);
-    }
-  }
-
-  private sendMessage(message: JSONRPC2Request): void {
-    if (!this.ws || this.ws.readyState !== WebSocket.OPEN) {
-      throw new Error("WebSocket 未连接");
-    }
-
-    this.ws.send(JSON.stringify(message));
+    // 错误响应同样交给调用方，经拦截器处理后再转换为 RPC2Error
+    pending.resolve(data);
   }
 
-  private setConnectionState(state: RPC2ConnectionStateType): void {
-    this.connectionState = state;
-  }
+  private dispatchNotification(notification: JSONRPC2Request): void {
+    const handlers = this.subscriptions.get(notification.method);
+    if (!handlers) return;
 
-  private generateRequestId(): number {
-    return ++this.requestId;
+    // 复制一份，允许处理器在回调中取消订阅
+    for (const handler of [...handlers]) {
+      try {
+        handler(notification.params, notification);
+      } catch (error) {
+        console.error(`处理通知 ${notification.method} 失败:`, error);
+      }
+    }
   }
 
-  private clearPendingRequests(error: Error): void {
-    for (const [, pending] of this.pendingRequests) {
-      if (pending.timeout) {
-        clearTimeout(pending.timeout);
-      }
-      pending.reject(error);
+  /**
+   * 按注册的校验器检查响应结构，仅上报不拦截
+   */
+  private validateResult(method: string, result: unknown): void {
+    const validator = this.options.responseValidators[method];
+    if (!validator) return;
+
+    const problem = validator(result);
+    if (problem) {
+      console.warn(`RPC 响应格式异常 ${method}: ${problem}`, result);
+      this.emit("error", new Error(`RPC 响应格式异常 ${method}: ${problem}`));
     }
-    this.pendingRequests.clear();
   }
 
   /**
-   * 启动心跳包
+   * 是否应将调用放入重连队列：仅在连接进行中，或下一次重连会在宽限期内发生时排队
    */
-  private startHeartbeat(): void {
-    // 如果未启用心跳包，则不启动
-    if (!this.options.enableHeartbeat) {
-      return;
+  private shouldQueue(options: RPC2CallOptions): boolean {
+    if (!this.options.queueWhileConnecting || options.urgent) {
+      return false;
+    }
+    if (this.connectQueue.size >= this.options.maxQueueSize) {
+      return false;
+    }
+
+    switch (this.connectionState) {
+      case RPC2ConnectionState.CONNECTING:
+        return true;
+      case RPC2ConnectionState.RECONNECTING:
+        return this.nextReconnectAt - Date.now() < this.options.queueGracePeriod;
+      default:
+        return false;
     }
-    
-    // 先清理之前的心跳包定时器
-    this.stopHeartbeat();
-    
-    // 按配置的间隔发送心跳包
-    this.heartbeatInterval = setInterval(() => {
-      if (this.ws && this.ws.readyState === WebSocket.OPEN) {
-        try {
-          // 发送心跳包作为通知请求（不期望响应）
-          const heartbeatRequest: JSONRPC2Request = {
-            jsonrpc: "2.0",
-            method: "rpc.ping",
-            params: { timestamp: Date.now() }
-          };
-          this.ws.send(JSON.stringify(heartbeatRequest));
-        } catch (error) {
-          console.warn("发送心跳包失败:", error);
-        }
-      }
-    }, this.options.heartbeatInterval);
   }
 
   /**
-   * 停止心跳包
+   * 等待连接建立或宽限期结束；之后由调用方按当前连接状态选择传输方式
    */
-  private stopHeartbeat(): void {
-    if (this.heartbeatInterval) {
-      clearInterval(this.heartbeatInterval);
-      this.heartbeatInterval = undefined;
+  private waitForConnection(method: string, signal?: AbortSignal): Promise<void> {
+    return new Promise<void>((resolve, reject) => {
+      const cleanup = () => {
+        clearTimeout(timer);
+        signal?.removeEventListener("abort", onAbort);
+        this.connectQueue.delete(release);
+      };
+      const release = () => {
+        cleanup();
+        resolve();
+      };
+      const onAbort = () => {
+        cleanup();
+        reject(createAbortError(method, "ws", signal));
+      };
+
+      const timer = setTimeout(release, this.options.queueGracePeriod);
+      signal?.addEventListener("abort", onAbort, { once: true });
+      this.connectQueue.add(release);
+    });
+  }
+
+  private flushConnectQueue(): void {
+    for (const release of [...this.connectQueue]) {
+      release();
     }
   }
 
+  private createInterceptorContext(transport: RPC2TransportKind, batch: boolean): RPC2InterceptorContext {
+    return {
+      transport,
+      batch,
+      startedAt: Date.now(),
+      headers: { ...this.options.headers },
+    };
+  }
+
+  private async interceptRequest<TRequest extends JSONRPC2Request>(
+    request: TRequest,
+    context: RPC2InterceptorContext
+  ): Promise<TRequest> {
+    for (const interceptor of this.interceptors) {
+      const next = await interceptor.onRequest?.(request, context);
+      if (next) {
+        request = next as TRequest;
+      }
+    }
+    return request;
+  }
+
+  private interceptError(error: unknown, request: JSONRPC2Request, context: RPC2InterceptorContext): void {
+    for (const interceptor of this.interceptors) {
+      try {
+        interceptor.onError?.(error, request, context);
+      } catch (err) {
+        console.error("RPC 拦截器 onError 执行失败:", err);
+      }
+    }
+  }
+
+  /**
+   * 依次经过响应拦截器，再将 JSON-RPC 响应转换为结果或 RPC2Error
+   */
+  private async settleResponse<TResult>(
+    response: JSONRPC2Response<TResult> | Promise<JSONRPC2Response<TResult>>,
+    request: JSONRPC2Request,
+    context: RPC2InterceptorContext
+  ): Promise<TResult> {
+    try {
+      let current = await response;
+      for (const interceptor of this.interceptors) {
+        const next = await interceptor.onResponse?.(current, request, context);
+        if (next) {
+          current = next;
+        }
+      }
+
+      if ("error" in current) {
+        throw RPC2Error.fromResponse(current.error, request.method, context.transport);
+      }
+      this.lastSuccessInfo = { at: Date.now(), transport: context.transport };
+      return current.result;
+    } catch (error) {
+      this.interceptError(error, request, context);
+      throw error;
+    }
+  }
+
+  /**
+   * 结算批量中的一项：JSON-RPC 错误作为该项的结果返回，传输失败仍然抛出以便整批回退
+   */
+  private settleBatchItem<TResult>(
+    response: JSONRPC2Response<TResult> | Promise<JSONRPC2Response<TResult>>,
+    request: JSONRPC2Request,
+    context: RPC2InterceptorContext
+  ): Promise<TResult | RPC2Error> {
+    return this.settleResponse(response, request, context).catch((error) => {
+      if (error instanceof RPC2Error && !isTransportFailure(error)) {
+        return error;
+      }
+      throw error;
+    });
+  }
+
+  /**
+   * 登记等待中的请求，收到对应 id 的响应、超时或 signal 取消后结束
+   */
+  private waitForResponse<TResult = any>(
+    id: string | number,
+    method: string,
+    timeoutMs: number,
+    signal?: AbortSignal
+  ): Promise<JSONRPC2Response<TResult>> {
+    return new Promise<JSONRPC2Response<TResult>>((resolve, reject) => {
+      const onAbort = () => this.rejectPending(id, createAbortError(method, "ws", signal));
+      const release = () => signal?.removeEventListener("abort", onAbort);
+
+      const timeout = setTimeout(() => {
+        this.pendingRequests.delete(id);
+        release();
+        reject(new RPC2Error(RPC2ClientErrorCode.TIMEOUT, `请求超时: ${method}`, { method, transport: "ws" }));
+      }, timeoutMs);
+
+      this.pendingRequests.set(id, {
+        method,
+        resolve: (value) => {
+          release();
+          resolve(value);
+        },
+        reject: (reason) => {
+          release();
+          reject(reason);
+        },
+        timeout,
+      });
+
+      signal?.addEventListener("abort", onAbort, { once: true });
+    });
+  }
+
+  private rejectPending(id: string | number, error: Error): void {
+    const pending = this.pendingRequests.get(id);
+    if (!pending) return;
+
+    this.pendingRequests.delete(id);
+    if (pending.timeout) {
+      clearTimeout(pending.timeout);
+    }
+    pending.reject(error);
+  }
+
+  private buildBatchRequest(requests: RPC2BatchCallItem[]): JSONRPC2BatchRequest {
+    return requests.map(req => ({
+      jsonrpc: "2.0",
+      method: req.method,
+      params: req.params,
+      id: req.notification ? undefined : this.generateRequestId(),
+    }));
+  }
+
+  private sendMessage(message: JSONRPC2Request | JSONRPC2BatchRequest, method: string): void {
+    if (!this.connection?.isOpen) {
+      throw new RPC2Error(RPC2ClientErrorCode.NOT_CONNECTED, "WebSocket 未连接", { method, transport: "ws" });
+    }
+
+    this.connection.send(JSON.stringify(message));
+  }
+
+  private setConnectionState(state: RPC2ConnectionStateType): void {
+    const previous = this.connectionState;
+    this.connectionState = state;
+    if (previous !== state) {
+      this.emit("stateChange", state, previous);
+    }
+  }
+
+  /**
+   * 依次通知旧式监听器与 on 注册的订阅者；单个订阅者抛出的异常不影响其他订阅者
+   */
+  private emit<E extends RPC2EventName>(event: E, ...args: RPC2EventMap[E]): void {
+    const legacy = this.eventListeners[legacyListenerKeys[event]] as ((...args: RPC2EventMap[E]) => void) | undefined;
+    const handlers = [...(legacy ? [legacy] : []), ...(this.eventHandlers.get(event) ?? [])];
+    for (const handler of handlers) {
+      try {
+        handler(...args);
+      } catch (error) {
+        console.error(`RPC2 事件处理出错 (${event}):`, error);
+      }
+    }
+  }
+
+  private generateRequestId(): number {
+    return ++this.requestId;
+  }
+
+  private clearPendingRequests(error: Error): void {
+    for (const [, pending] of this.pendingRequests) {
+      if (pending.timeout) {
+        clearTimeout(pending.timeout);
+      }
+      pending.reject(error);
+    }
+    this.pendingRequests.clear();
+  }
+
+  /**
+   * 启动心跳包
+   */
+  private startHeartbeat(): void {
+    // 如果未启用心跳包，则不启动
+    if (!this.options.enableHeartbeat) {
+      return;
+    }
+    
+    // 先清理之前的心跳包定时器
+    this.stopHeartbeat();
+    
+    // 按配置的间隔发送心跳包
+    this.heartbeatInterval = setInterval(() => {
+      this.sendHeartbeat();
+    }, this.options.heartbeatInterval);
+  }
+
+  /**
+   * 停止心跳包
+   */
+  private stopHeartbeat(): void {
+    if (this.heartbeatInterval) {
+      clearInterval(this.heartbeatInterval);
+      this.heartbeatInterval = undefined;
+    }
+    this.heartbeatInFlight = false;
+    this.missedHeartbeats = 0;
+    this.heartbeatLatency = null;
+  }
+
+  /**
+   * 发送一次心跳请求并等待应答；任何应答（包括错误响应）都说明连接仍然可用
+   */
+  private async sendHeartbeat(): Promise<void> {
+    // 上一次心跳尚未应答时不再叠加发送
+    if (this.heartbeatInFlight || !this.connection?.isOpen) {
+      return;
+    }
+
+    const connection = this.connection;
+    const id = this.generateRequestId();
+    const sentAt = Date.now();
+    const heartbeatRequest: JSONRPC2Request = {
+      jsonrpc: "2.0",
+      method: "rpc.ping",
+      params: { timestamp: sentAt },
+      id,
+    };
+
+    this.heartbeatInFlight = true;
+    try {
+      const response = this.waitForResponse(id, "rpc.ping", this.options.heartbeatTimeout);
+      try {
+        this.sendMessage(heartbeatRequest, "rpc.ping");
+      } catch (error) {
+        this.rejectPending(id, error as Error);
+      }
+      await response;
+
+      // 连接已被替换时忽略迟到的应答
+      if (this.connection !== connection) return;
+      this.missedHeartbeats = 0;
+      this.heartbeatLatency = Date.now() - sentAt;
+      this.emit("heartbeat", this.heartbeatLatency);
+    } catch (error) {
+      if (this.connection !== connection) return;
+      this.missedHeartbeats++;
+      console.warn(`心跳包未应答（${this.missedHeartbeats}/${this.options.maxMissedHeartbeats}）:`, error);
+      if (this.missedHeartbeats >= this.options.maxMissedHeartbeats) {
+        this.dropDeadSocket();
+      }
+    } finally {
+      if (this.connection === connection) {
+        this.heartbeatInFlight = false;
+      }
+    }
+  }
+
+  /**
+   * 半开连接不会及时触发 onclose，主动丢弃当前 socket 并进入重连流程
+   */
+  private dropDeadSocket(): void {
+    const connection = this.connection;
+    if (!connection) return;
+
+    // 先解除关联，旧连接之后的回调都会被忽略
+    this.connection = null;
+    connection.close();
+
+    this.emit("error", new Error("心跳超时，连接已失效"));
+    this.clearPendingRequests(new RPC2Error(RPC2ClientErrorCode.NETWORK_ERROR, "心跳超时，连接已失效", { transport: "ws" }));
+    this.handleClose();
+  }
+
   private attemptReconnect(): void {
+    if (this.reconnectTimeout) {
+      clearTimeout(this.reconnectTimeout);
+    }
+
     this.reconnectAttempts++;
+    const delay = this.getReconnectDelay(this.reconnectAttempts);
+    this.nextReconnectAt = Date.now() + delay;
     this.setConnectionState(RPC2ConnectionState.RECONNECTING);
-    this.eventListeners.onReconnecting?.(this.reconnectAttempts);
+    this.emit("reconnecting", this.reconnectAttempts, delay);
 
     this.reconnectTimeout = setTimeout(() => {
+      this.reconnectTimeout = undefined;
       this.connect().catch(() => {
         // 重连失败会触发 onclose，从而继续重连或停止
       });
-    }, this.options.reconnectInterval);
+    }, delay);
+  }
+
+  /**
+   * 计算第 attempt 次重连的等待时间：指数退避 + 随机抖动
+   */
+  private getReconnectDelay(attempt: number): number {
+    const { reconnectInterval, maxReconnectInterval, reconnectBackoffFactor, reconnectJitter } = this.options;
+    const base = Math.min(
+      reconnectInterval * Math.pow(reconnectBackoffFactor, attempt - 1),
+      maxReconnectInterval
+    );
+    // 在 [-jitter, +jitter] 范围内随机浮动，避免大量客户端同时重连
+    const jitter = base * reconnectJitter * (Math.random() * 2 - 1);
+    return Math.max(0, Math.round(base + jitter));
+  }
+
+  /**
+   * 网络恢复 / 页面重新可见时，跳过退避等待立即重连
+   */
+  private handleResume = (): void => {
+    if (typeof document !== "undefined" && document.visibilityState === "hidden") {
+      return;
+    }
+    if (!this.options.autoReconnect ||
+        this.connectionState === RPC2ConnectionState.CONNECTED ||
+        this.connectionState === RPC2ConnectionState.CONNECTING) {
+      return;
+    }
+
+    if (this.reconnectTimeout) {
+      clearTimeout(this.reconnectTimeout);
+      this.reconnectTimeout = undefined;
+    }
+    // 重新开始退避计数（即使此前已达到最大重连次数）
+    this.reconnectAttempts = 0;
+    this.connect().catch(() => {
+      // 失败后由 onclose 继续按退避策略重连
+    });
+  };
+
+  private bindResumeListeners(): void {
+    if (typeof window === "undefined") return;
+    window.addEventListener("online", this.handleResume);
+    document.addEventListener("visibilitychange", this.handleResume);
+  }
+
+  private unbindResumeListeners(): void {
+    if (typeof window === "undefined") return;
+    window.removeEventListener("online", this.handleResume);
+    document.removeEventListener("visibilitychange", this.handleResume);
+  }
+}
+
+/**
+ * signal 已取消时直接抛出，避免发出注定被丢弃的请求
+ */
+function throwIfAborted(method: string, transport: RPC2TransportKind, signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw createAbortError(method, transport, signal);
+  }
+}
+
+function createAbortError(method: string, transport: RPC2TransportKind, signal?: AbortSignal): RPC2Error {
+  return new RPC2Error(RPC2ClientErrorCode.ABORTED, `请求已取消: ${method}`, {
+    method,
+    transport,
+    cause: signal?.reason,
+  });
+}
+
+function createHTTPStatusError(response: Response, method: string): RPC2Error {
+  return new RPC2Error(RPC2ClientErrorCode.HTTP_ERROR, `HTTP ${response.status}: ${response.statusText}`, {
+    data: { status: response.status },
+    method,
+    transport: "http",
+  });
+}
+
+/**
+ * 将 fetch 抛出的各类异常统一为 RPC2Error
+ */
+function normalizeHTTPError(error: unknown, method: string, signal?: AbortSignal): RPC2Error {
+  if (error instanceof RPC2Error) {
+    return error;
+  }
+  if (signal?.aborted) {
+    return createAbortError(method, "http", signal);
   }
+  if ((error as Error)?.name === "TimeoutError") {
+    return new RPC2Error(RPC2ClientErrorCode.TIMEOUT, `请求超时: ${method}`, { method, transport: "http", cause: error });
+  }
+  return new RPC2Error(
+    RPC2ClientErrorCode.NETWORK_ERROR,
+    error instanceof Error ? error.message : `请求失败: ${method}`,
+    { method, transport: "http", cause: error }
+  );
+}
+
+/**
+ * 是否为传输层失败（未连接、网络错误、超时），只有这类失败才值得改走 HTTP 重试
+ * 服务端返回的 JSON-RPC 错误说明请求已被处理
+ */
+function isTransportFailure(error: unknown): boolean {
+  if (!(error instanceof RPC2Error)) {
+    return true;
+  }
+  return (
+    error.code === RPC2ClientErrorCode.NOT_CONNECTED ||
+    error.code === RPC2ClientErrorCode.NETWORK_ERROR ||
+    error.code === RPC2ClientErrorCode.TIMEOUT
+  );
+}
+
+// 事件名 → setEventListeners 中对应的回调名
+const legacyListenerKeys: { [E in RPC2EventName]: keyof RPC2EventListeners } = {
+  connect: "onConnect",
+  disconnect: "onDisconnect",
+  error: "onError",
+  reconnecting: "onReconnecting",
+  message: "onMessage",
+  heartbeat: "onHeartbeat",
+  stateChange: "onStateChange",
+};
+
+// 等待共享请求，调用方取消时仅放弃自身的等待
+function raceSignal<T>(pending: Promise<T>, method: string, signal?: AbortSignal): Promise<T> {
+  if (!signal) return pending;
+  if (signal.aborted) return Promise.reject(createAbortError(method, "http", signal));
+
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(createAbortError(method, "http", signal));
+    signal.addEventListener("abort", onAbort, { once: true });
+    pending.then(resolve, reject).finally(() => signal.removeEventListener("abort", onAbort));
+  });
+}
+
+// 缓存键：方法名 + 稳定序列化的参数（对象键排序）
+function getCacheKey(method: string, params: unknown): string {
+  return `${method}:${stableStringify(params)}`;
+}
+
+function stableStringify(value: unknown): string {
+  if (value === undefined) return "";
+  if (value === null || typeof value !== "object") return JSON.stringify(value);
+  if (Array.isArray(value)) {
+    return `[${value.map((item) => (item === undefined ? "null" : stableStringify(item))).join(",")}]`;
+  }
+  const entries = Object.keys(value)
+    .filter((key) => (value as Record<string, unknown>)[key] !== undefined)
+    .sort()
+    .map((key) => `${JSON.stringify(key)}:${stableStringify((value as Record<string, unknown>)[key])}`);
+  return `{${entries.join(",")}}`;
+}
+
+/**
+ * 合并多个 AbortSignal，任一取消即取消
+ */
+function mergeSignals(...signals: Array<AbortSignal | undefined>): AbortSignal | undefined {
+  const active = signals.filter((signal): signal is AbortSignal => !!signal);
+  if (active.length <= 1) {
+    return active[0];
+  }
+
+  const controller = new AbortController();
+  for (const signal of active) {
+    if (signal.aborted) {
+      controller.abort(signal.reason);
+      break;
+    }
+    signal.addEventListener("abort", () => controller.abort(signal.reason), { once: true });
+  }
+  return controller.signal;
+}
+
+function resolveWebSocketUrl(url: string): string {
+  if (/^wss?:\/\//.test(url)) {
+    return url;
+  }
+  if (/^https?:\/\//.test(url)) {
+    return url.replace(/^http/, "ws");
+  }
+  // 使用 globalThis 以便在 Worker 中同样可用
+  const protocol = globalThis.location.protocol === "https:" ? "wss:" : "ws:";
+  return `${protocol}//${globalThis.location.host}${url}`;
 }
 
 // 注意：避免在模块级别创建默认实例，以免在多处导入时重复建立 WebSocket 连接。
@@ -457,6 +1332,248 @@ export class RPC2Client {
 //#endregion
 
 
+//#region RPC2Error
+/**
+ * RPC 调用错误，保留 JSON-RPC 错误码、附加数据、方法名与所用传输方式
+ */
+export class RPC2Error extends Error {
+  /** JSON-RPC 错误码，或 RPC2ClientErrorCode 中的客户端错误码 */
+  readonly code: number;
+  /** 错误详细信息（JSON-RPC error.data，或 HTTP 状态等） */
+  readonly data?: any;
+  /** 出错的方法名 */
+  readonly method?: string;
+  /** 出错时使用的传输方式 */
+  readonly transport?: RPC2TransportKind;
+  /** 原始异常 */
+  readonly cause?: unknown;
+
+  constructor(
+    code: number,
+    message: string,
+    options: { data?: any; method?: string; transport?: RPC2TransportKind; cause?: unknown } = {}
+  ) {
+    super(message);
+    this.name = "RPC2Error";
+    this.code = code;
+    this.data = options.data;
+    this.method = options.method;
+    this.transport = options.transport;
+    this.cause = options.cause;
+  }
+
+  /**
+   * 由 JSON-RPC 错误响应构造
+   */
+  static fromResponse(error: JSONRPC2Error, method: string, transport: RPC2TransportKind): RPC2Error {
+    return new RPC2Error(error.code, error.message, { data: error.data, method, transport });
+  }
+
+  /**
+   * 是否值得重试：请求本身有误（参数、方法不存在等）或被主动取消时重试没有意义
+   */
+  get retryable(): boolean {
+    switch (this.code) {
+      case JSONRPC2ErrorCode.PARSE_ERROR:
+      case JSONRPC2ErrorCode.INVALID_REQUEST:
+      case JSONRPC2ErrorCode.METHOD_NOT_FOUND:
+      case JSONRPC2ErrorCode.INVALID_PARAMS:
+      case RPC2ClientErrorCode.ABORTED:
+      case RPC2ClientErrorCode.INVALID_RESPONSE:
+        return false;
+      case RPC2ClientErrorCode.HTTP_ERROR: {
+        const status: number = this.data?.status ?? 0;
+        // 4xx 中仅请求超时与限流可重试
+        return status >= 500 || status === 408 || status === 429;
+      }
+      default:
+        return true;
+    }
+  }
+}
+
+/**
+ * 判断错误是否值得重试；非 RPC2Error 的未知错误默认可重试
+ */
+export const isRetryableError = (error: unknown): boolean =>
+  !(error instanceof RPC2Error) || error.retryable;
+//#endregion
+
+
+//#region Transports
+/**
+ * 基于 WebSocket 的持久连接传输
+ */
+export class WebSocketTransport implements RPC2Transport {
+  private readonly url: string;
+
+  /**
+   * @param url 相对路径时按当前页面的协议与主机拼接为 ws(s) 地址
+   */
+  constructor(url = "/api/rpc2") {
+    this.url = url;
+  }
+
+  connect(listeners: RPC2TransportListeners): RPC2TransportConnection {
+    const ws = new WebSocket(resolveWebSocketUrl(this.url));
+    ws.onopen = () => listeners.onOpen();
+    ws.onmessage = (event) => listeners.onMessage(event.data);
+    ws.onclose = () => listeners.onClose();
+    ws.onerror = (error) => {
+      console.error("WebSocket 错误:", error);
+      listeners.onError(new Error("WebSocket 连接错误"));
+    };
+
+    return {
+      get isOpen() {
+        return ws.readyState === WebSocket.OPEN;
+      },
+      send: (data) => ws.send(data),
+      close: () => ws.close(),
+    };
+  }
+}
+
+/**
+ * 基于 HTTP POST 的单次请求传输
+ */
+export class HTTPTransport implements RPC2Transport {
+  private readonly url: string;
+
+  constructor(url = "/api/rpc2") {
+    this.url = url;
+  }
+
+  async request(message: JSONRPC2Request | JSONRPC2BatchRequest, init: RPC2TransportRequestInit): Promise<unknown> {
+    const response = await fetch(this.url, {
+      method: "POST",
+      headers: init.headers,
+      body: JSON.stringify(message),
+      signal: init.signal,
+    });
+
+    if (!response.ok) {
+      throw createHTTPStatusError(response, init.method);
+    }
+
+    // 通知请求没有响应体
+    const text = await response.text();
+    return text ? JSON.parse(text) : undefined;
+  }
+}
+
+/**
+ * 内存传输：按方法名调用本地处理函数，可用于离线调试、录制数据回放或 postMessage 桥接的替身
+ * 同时支持持久连接与单次请求，处理函数抛出 RPC2Error 时返回对应错误码
+ */
+export class MemoryTransport implements RPC2Transport {
+  private readonly handlers: Record<string, RPC2MemoryHandler>;
+  private readonly latency: number;
+  private readonly connections = new Set<RPC2TransportListeners>();
+
+  /**
+   * @param handlers 方法名 → 处理函数
+   * @param options.latency 模拟的单程延迟（毫秒）
+   */
+  constructor(handlers: Record<string, RPC2MemoryHandler>, options: { latency?: number } = {}) {
+    this.handlers = handlers;
+    this.latency = options.latency ?? 0;
+  }
+
+  connect(listeners: RPC2TransportListeners): RPC2TransportConnection {
+    let open = false;
+    let closed = false;
+
+    // 与真实连接一致，回调总是异步触发
+    setTimeout(() => {
+      if (closed) return;
+      open = true;
+      this.connections.add(listeners);
+      listeners.onOpen();
+    }, this.latency);
+
+    return {
+      get isOpen() {
+        return open;
+      },
+      send: (data) => {
+        this.dispatch(JSON.parse(data)).then((reply) => {
+          if (open && reply !== undefined) {
+            listeners.onMessage(JSON.stringify(reply));
+          }
+        });
+      },
+      close: () => {
+        if (closed) return;
+        closed = true;
+        open = false;
+        this.connections.delete(listeners);
+        setTimeout(() => listeners.onClose());
+      },
+    };
+  }
+
+  request(message: JSONRPC2Request | JSONRPC2BatchRequest, init: RPC2TransportRequestInit): Promise<unknown> {
+    return raceSignal(this.dispatch(message), init.method, init.signal);
+  }
+
+  /**
+   * 向所有已建立的持久连接推送通知
+   */
+  notify(method: string, params?: any): void {
+    const frame = JSON.stringify({ jsonrpc: "2.0", method, params });
+    for (const listeners of this.connections) {
+      listeners.onMessage(frame);
+    }
+  }
+
+  private async dispatch(
+    message: JSONRPC2Request | JSONRPC2BatchRequest
+  ): Promise<JSONRPC2Response | JSONRPC2BatchResponse | undefined> {
+    await new Promise((resolve) => setTimeout(resolve, this.latency));
+
+    if (Array.isArray(message)) {
+      const replies = await Promise.all(message.map((request) => this.handleRequest(request)));
+      const responses = replies.filter((reply): reply is JSONRPC2Response => reply !== undefined);
+      return responses.length > 0 ? responses : undefined;
+    }
+    return this.handleRequest(message);
+  }
+
+  private async handleRequest(request: JSONRPC2Request): Promise<JSONRPC2Response | undefined> {
+    const id = request.id;
+    try {
+      const handler = this.handlers[request.method];
+      if (!handler) {
+        throw new RPC2Error(JSONRPC2ErrorCode.METHOD_NOT_FOUND, `方法不存在: ${request.method}`);
+      }
+      const result = await handler(request.params, request);
+      return id == null ? undefined : { jsonrpc: "2.0", result, id };
+    } catch (error) {
+      if (id == null) return undefined;
+      return {
+        jsonrpc: "2.0",
+        error: {
+          code: error instanceof RPC2Error ? error.code : JSONRPC2ErrorCode.INTERNAL_ERROR,
+          message: error instanceof Error ? error.message : String(error),
+          data: error instanceof RPC2Error ? error.data : undefined,
+        },
+        id,
+      };
+    }
+  }
+}
+
+/**
+ * 组合传输：持久连接与单次请求分别由不同的传输实现
+ */
+export const combineTransports = (connectable: RPC2Transport, requestable: RPC2Transport): RPC2Transport => ({
+  connect: connectable.connect?.bind(connectable),
+  request: requestable.request?.bind(requestable),
+});
+//#endregion
+
+
 //#region Types
 /**
  * JSON-RPC 2.0 标准类型定义
@@ -546,6 +1663,85 @@ export const JSONRPC2ErrorCode = {
 
 export type JSONRPC2ErrorCodeType = typeof JSONRPC2ErrorCode[keyof typeof JSONRPC2ErrorCode];
 
+/**
+ * 客户端错误代码（非 JSON-RPC 规范定义，取负个位数以免与服务端错误码冲突）
+ */
+export const RPC2ClientErrorCode = {
+  /** 请求超时 */
+  TIMEOUT: -1,
+  /** 请求被取消 */
+  ABORTED: -2,
+  /** 网络错误（请求失败、连接断开等） */
+  NETWORK_ERROR: -3,
+  /** HTTP 状态码非 2xx，状态码见 data.status */
+  HTTP_ERROR: -4,
+  /** WebSocket 未连接 */
+  NOT_CONNECTED: -5,
+  /** 响应缺失或格式无效 */
+  INVALID_RESPONSE: -6,
+} as const;
+
+export type RPC2ClientErrorCodeType = typeof RPC2ClientErrorCode[keyof typeof RPC2ClientErrorCode];
+
+/**
+ * RPC 传输方式：ws 为持久连接，http 为单次请求
+ */
+export type RPC2TransportKind = "ws" | "http";
+
+/**
+ * 最近一次成功响应
+ */
+export interface RPC2SuccessInfo {
+  /** 收到响应的时间（毫秒时间戳） */
+  at: number;
+  transport: RPC2TransportKind;
+}
+
+/**
+ * 可替换的底层传输；未实现 connect 时客户端只使用单次请求，未实现 request 时只使用持久连接
+ */
+export interface RPC2Transport {
+  /** 建立持久连接，listeners 回调必须异步触发 */
+  connect?: (listeners: RPC2TransportListeners) => RPC2TransportConnection;
+  /** 发送单次请求，返回解析后的响应体；通知请求可返回 undefined */
+  request?: (message: JSONRPC2Request | JSONRPC2BatchRequest, init: RPC2TransportRequestInit) => Promise<unknown>;
+}
+
+/**
+ * 持久连接的事件回调
+ */
+export interface RPC2TransportListeners {
+  onOpen: () => void;
+  /** 收到文本帧 */
+  onMessage: (data: string) => void;
+  onClose: () => void;
+  onError: (error: Error) => void;
+}
+
+/**
+ * 已建立的持久连接
+ */
+export interface RPC2TransportConnection {
+  readonly isOpen: boolean;
+  send: (data: string) => void;
+  close: () => void;
+}
+
+/**
+ * 单次请求的附加参数
+ */
+export interface RPC2TransportRequestInit {
+  /** 方法名（批量请求为 "batch"），用于错误信息 */
+  method: string;
+  headers: Record<string, string>;
+  signal?: AbortSignal;
+}
+
+/**
+ * MemoryTransport 的方法处理函数
+ */
+export type RPC2MemoryHandler = (params: any, request: JSONRPC2Request) => unknown;
+
 /**
  * RPC 连接状态
  */
@@ -567,20 +1763,60 @@ export interface RPC2ConnectionOptions {
   autoConnect?: boolean;
   /** 自动重连 */
   autoReconnect?: boolean;
-  /** 重连间隔（毫秒） */
+  /** 首次重连间隔（毫秒），之后按退避系数递增 */
   reconnectInterval?: number;
-  /** 最大重连次数 */
+  /** 重连间隔上限（毫秒） */
+  maxReconnectInterval?: number;
+  /** 退避系数，每次重连失败后间隔乘以该值 */
+  reconnectBackoffFactor?: number;
+  /** 抖动比例（0~1），实际间隔在 ±该比例内随机浮动 */
+  reconnectJitter?: number;
+  /** 最大重连次数（reconnectForever 为 true 时忽略） */
   maxReconnectAttempts?: number;
+  /** 无限重连，不受 maxReconnectAttempts 限制 */
+  reconnectForever?: boolean;
+  /** 网络恢复（online）或页面重新可见时立即重连 */
+  reconnectOnResume?: boolean;
+  /** 连接/重连期间将非紧急调用排队，等待 WebSocket 建立后发送 */
+  queueWhileConnecting?: boolean;
+  /** 排队调用的最长等待时间（毫秒），超时后回退 HTTP */
+  queueGracePeriod?: number;
+  /** 队列上限，队列已满时直接走 HTTP */
+  maxQueueSize?: number;
   /** 请求超时时间（毫秒） */
   requestTimeout?: number;
   /** 启用心跳包 */
   enableHeartbeat?: boolean;
   /** 心跳包间隔（毫秒） */
   heartbeatInterval?: number;
+  /** 心跳应答的等待时间（毫秒） */
+  heartbeatTimeout?: number;
+  /** 连续未应答的心跳达到该次数时判定连接失效并重连 */
+  maxMissedHeartbeats?: number;
   /** 自定义headers（仅用于POST请求） */
   headers?: Record<string, string>;
+  /** 按方法名注册的响应结构校验器 */
+  responseValidators?: Partial<Record<string, RPC2ResponseValidator>>;
+  /** 底层传输，默认 WebSocket + HTTP POST */
+  transport?: RPC2Transport;
 }
 
+/**
+ * 响应结构校验器，返回问题描述；结构正常时返回空
+ */
+export type RPC2ResponseValidator = (result: unknown) => string | null | undefined;
+
+/**
+ * 方法注册表：方法名 → 请求参数 / 响应结果
+ */
+export type RPC2MethodMap = Record<string, { params: any; result: any }>;
+
+export type RPC2MethodName<TMethods extends RPC2MethodMap> = Extract<keyof TMethods, string>;
+
+export type RPC2Params<TMethods extends RPC2MethodMap, M extends keyof TMethods> = TMethods[M]["params"];
+
+export type RPC2Result<TMethods extends RPC2MethodMap, M extends keyof TMethods> = TMethods[M]["result"];
+
 /**
  * RPC 调用选项
  */
@@ -589,6 +1825,68 @@ export interface RPC2CallOptions {
   timeout?: number;
   /** 是否为通知请求（不期望响应） */
   notification?: boolean;
+  /** 取消信号，触发后移除等待项并以 ABORTED 错误拒绝 */
+  signal?: AbortSignal;
+  /** 紧急调用，重连期间不排队，直接走 HTTP */
+  urgent?: boolean;
+  /** 相同方法与参数的并发调用共享同一个请求 */
+  dedupe?: boolean;
+  /** 结果缓存时间（毫秒），大于 0 时同时启用去重 */
+  cacheTTL?: number;
+}
+
+/**
+ * 响应缓存项；过期后仍保留最近一次结果，供 getCached 同步读取
+ */
+interface RPC2CacheEntry {
+  value?: any;
+  expiresAt: number;
+  promise?: Promise<any>;
+}
+
+/**
+ * 批量调用中的单个请求
+ */
+export interface RPC2BatchCallItem {
+  /** 调用的方法名 */
+  method: string;
+  /** 调用参数（可选） */
+  params?: any;
+  /** 是否为通知请求（不期望响应） */
+  notification?: boolean;
+}
+
+/**
+ * 拦截器上下文，同一次调用（含批量调用）内共享
+ */
+export interface RPC2InterceptorContext {
+  /** 所用传输方式 */
+  transport: RPC2TransportKind;
+  /** 是否为批量调用 */
+  batch: boolean;
+  /** 调用开始时间（毫秒时间戳） */
+  startedAt: number;
+  /** 本次 HTTP 请求头，可在 onRequest 中直接修改（WebSocket 下无效） */
+  headers: Record<string, string>;
+}
+
+/**
+ * 请求/响应拦截器，回调返回新对象时替换原请求或响应，返回空则保持不变
+ */
+export interface RPC2Interceptor {
+  /** 发送前调用 */
+  onRequest?: (
+    request: JSONRPC2Request,
+    context: RPC2InterceptorContext
+  ) => JSONRPC2Request | void | Promise<JSONRPC2Request | void>;
+  /** 收到响应后、转换为结果前调用（包括错误响应） */
+  onResponse?: (
+    response: JSONRPC2Response,
+    request: JSONRPC2Request,
+    context: RPC2InterceptorContext
+  ) => JSONRPC2Response | void | Promise<JSONRPC2Response | void>;
+  /** 调用失败时调用，仅用于观察 */
+  onError?: (error: unknown, request: JSONRPC2Request, context: RPC2InterceptorContext) => void;
 }
 
 /**
@@ -598,9 +1896,41 @@ export interface RPC2EventListeners {
   onConnect?: () => void;
   onDisconnect?: () => void;
   onError?: (error: Error) => void;
-  onReconnecting?: (attempt: number) => void;
+  onReconnecting?: (attempt: number, delay: number) => void;
   onMessage?: (data: any) => void;
+  /** 收到心跳应答，参数为往返延迟（毫秒） */
+  onHeartbeat?: (latency: number) => void;
+  /** 连接状态变化 */
+  onStateChange?: (state: RPC2ConnectionStateType, previous: RPC2ConnectionStateType) => void;
+}
+
+/**
+ * 客户端事件 → 回调参数
+ */
+export interface RPC2EventMap {
+  /** 持久连接已建立 */
+  connect: [];
+  /** 持久连接已断开 */
+  disconnect: [];
+  error: [error: Error];
+  /** 即将进行第 attempt 次重连，delay 毫秒后开始 */
+  reconnecting: [attempt: number, delay: number];
+  /** 收到持久连接上的消息（已解析） */
+  message: [data: any];
+  /** 收到心跳应答，参数为往返延迟（毫秒） */
+  heartbeat: [latency: number];
+  /** 连接状态变化 */
+  stateChange: [state: RPC2ConnectionStateType, previous: RPC2ConnectionStateType];
 }
 
+export type RPC2EventName = keyof RPC2EventMap;
+
+export type RPC2EventHandler<E extends RPC2EventName> = (...args: RPC2EventMap[E]) => void;
+
+/**
+ * 服务端通知处理器
+ */
+export type RPC2NotificationHandler<TParams = any> = (params: TParams, notification: JSONRPC2Request<TParams>) => void;
+
 //#endregion Types
 
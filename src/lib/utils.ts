@@ -1,5 +1,6 @@
-import { SharedClient } from "@/hooks/use-rpc2"
 import { formatBytes } from "@/lib/format"
+import { KomariBackend, SharedClient, getBackends } from "@/lib/komari-backends"
+import { AggregatedKomariNodes, AggregatedKomariNodesStatus, KomariNodes } from "@/types/komari-api"
 import { NezhaServer, NezhaWebsocketResponse } from "@/types/nezha-api"
 import { type ClassValue, clsx } from "clsx"
 import dayjs from "dayjs"
@@ -44,7 +45,7 @@ export function formatNezhaInfo(now: number, serverInfo: NezhaServer) {
     load_1: serverInfo.state.load_1?.toFixed(2) || 0.0,
     load_5: serverInfo.state.load_5?.toFixed(2) || 0.0,
     load_15: serverInfo.state.load_15?.toFixed(2) || 0.0,
-    public_note: handlePublicNote(serverInfo.id, serverInfo.public_note || ""),
+    public_note: handlePublicNote(serverInfo.uuid, serverInfo.public_note || ""),
   }
 }
 
@@ -248,67 +249,121 @@ export interface PublicNoteData {
   planDataMod?: PlanData
 }
 
-export function parsePublicNote(publicNote: string): PublicNoteData | null {
-  try {
-    if (!publicNote) {
-      return null
-    }
-    const data = JSON.parse(publicNote)
-    if (!data.billingDataMod && !data.planDataMod) {
-      return null
-    }
-    if (data.billingDataMod && !data.planDataMod) {
-      return {
-        billingDataMod: {
-          startDate: data.billingDataMod.startDate || "",
-          endDate: data.billingDataMod.endDate,
-          autoRenewal: data.billingDataMod.autoRenewal || "",
-          cycle: data.billingDataMod.cycle || "",
-          amount: data.billingDataMod.amount || "",
-        },
-      }
-    }
-    if (!data.billingDataMod && data.planDataMod) {
-      return {
-        planDataMod: {
-          bandwidth: data.planDataMod.bandwidth || "",
-          trafficVol: data.planDataMod.trafficVol || "",
-          trafficType: data.planDataMod.trafficType || "",
-          IPv4: data.planDataMod.IPv4 || "",
-          IPv6: data.planDataMod.IPv6 || "",
-          networkRoute: data.planDataMod.networkRoute || "",
-          extra: data.planDataMod.extra || "",
-        },
-      }
-    }
+// 公开备注的字段格式：date 为可被 dayjs 解析的日期（0000-00-00 开头表示永不过期），amount 需包含金额数字（0 为免费，-1 为按量）
+type PublicNoteFieldType = "string" | "date" | "amount"
+
+export const PUBLIC_NOTE_SCHEMA = {
+  billingDataMod: { startDate: "date", endDate: "date", autoRenewal: "string", cycle: "string", amount: "amount" },
+  planDataMod: {
+    bandwidth: "string",
+    trafficVol: "string",
+    trafficType: "string",
+    IPv4: "string",
+    IPv6: "string",
+    networkRoute: "string",
+    extra: "string",
+  },
+} as const satisfies { [K in keyof Required<PublicNoteData>]: Record<keyof Required<PublicNoteData>[K], PublicNoteFieldType> }
+
+export interface PublicNoteWarning {
+  code: "invalidJson" | "invalidType" | "unknownKey" | "invalidDate" | "invalidAmount"
+  /** 字段路径，如 billingDataMod.endDate */
+  path: string
+  /** 仅大小写不同的已知字段，如 enddate 对应 endDate */
+  suggestion?: string
+}
 
-    return {
-      billingDataMod: {
-        startDate: data.billingDataMod.startDate || "",
-        endDate: data.billingDataMod.endDate,
-        autoRenewal: data.billingDataMod.autoRenewal || "",
-        cycle: data.billingDataMod.cycle || "",
-        amount: data.billingDataMod.amount || "",
-      },
-      planDataMod: {
-        bandwidth: data.planDataMod.bandwidth || "",
-        trafficVol: data.planDataMod.trafficVol || "",
-        trafficType: data.planDataMod.trafficType || "",
-        IPv4: data.planDataMod.IPv4 || "",
-        IPv6: data.planDataMod.IPv6 || "",
-        networkRoute: data.planDataMod.networkRoute || "",
-        extra: data.planDataMod.extra || "",
-      },
+export interface PublicNoteParseResult {
+  value: PublicNoteData | null
+  warnings: PublicNoteWarning[]
+}
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> => typeof value === "object" && value !== null && !Array.isArray(value)
+
+const findSuggestion = (key: string, known: string[]) => known.find((name) => name.toLowerCase() === key.toLowerCase())
+
+const checkUnknownKeys = (data: Record<string, unknown>, known: string[], prefix: string, warnings: PublicNoteWarning[]) => {
+  for (const key of Object.keys(data)) {
+    if (!known.includes(key)) {
+      warnings.push({ code: "unknownKey", path: `${prefix}${key}`, suggestion: findSuggestion(key, known) })
     }
-  } catch (error) {
-    console.error("Error parsing public note:", error)
-    return null
   }
 }
 
+const parsePublicNoteField = (value: unknown, type: PublicNoteFieldType, path: string, warnings: PublicNoteWarning[]): string => {
+  if (value === undefined || value === null || value === "") return ""
+  if (typeof value !== "string" && typeof value !== "number" && typeof value !== "boolean") {
+    warnings.push({ code: "invalidType", path })
+    return ""
+  }
+  if (typeof value !== "string") {
+    warnings.push({ code: "invalidType", path })
+  }
+  const text = String(value)
+  // dayjs 会把 2025-13-45 这类越界日期顺延为有效日期，这里按原生规则严格检查
+  if (type === "date" && !text.startsWith("0000-00-00") && Number.isNaN(Date.parse(text))) {
+    warnings.push({ code: "invalidDate", path })
+  }
+  if (type === "amount" && !/\d/.test(text)) {
+    warnings.push({ code: "invalidAmount", path })
+  }
+  return text
+}
+
+const parsePublicNoteSection = <K extends keyof PublicNoteData>(key: K, data: unknown, warnings: PublicNoteWarning[]) => {
+  if (!isPlainObject(data)) {
+    warnings.push({ code: "invalidType", path: key })
+    return undefined
+  }
+  const schema: Record<string, PublicNoteFieldType> = PUBLIC_NOTE_SCHEMA[key]
+  checkUnknownKeys(data, Object.keys(schema), `${key}.`, warnings)
+  return Object.fromEntries(
+    Object.entries(schema).map(([field, type]) => [field, parsePublicNoteField(data[field], type, `${key}.${field}`, warnings)]),
+  ) as unknown as Required<PublicNoteData>[K]
+}
+
+/**
+ * 按 PUBLIC_NOTE_SCHEMA 解析公开备注，同时返回未知字段、无效日期与金额等警告
+ * 不是 JSON 对象的备注视为普通文本，不产生警告
+ */
+export function parsePublicNoteWithDiagnostics(publicNote: string): PublicNoteParseResult {
+  const warnings: PublicNoteWarning[] = []
+  if (!publicNote || !publicNote.trim().startsWith("{")) {
+    return { value: null, warnings }
+  }
+
+  let data: unknown
+  try {
+    data = JSON.parse(publicNote)
+  } catch {
+    return { value: null, warnings: [{ code: "invalidJson", path: "" }] }
+  }
+  if (!isPlainObject(data)) {
+    return { value: null, warnings: [{ code: "invalidType", path: "" }] }
+  }
+
+  checkUnknownKeys(data, Object.keys(PUBLIC_NOTE_SCHEMA), "", warnings)
+  // 未填写的模块为 null 时视为不存在
+  const billingDataMod = data.billingDataMod == null ? undefined : parsePublicNoteSection("billingDataMod", data.billingDataMod, warnings)
+  const planDataMod = data.planDataMod == null ? undefined : parsePublicNoteSection("planDataMod", data.planDataMod, warnings)
+  if (!billingDataMod && !planDataMod) {
+    return { value: null, warnings }
+  }
+  return {
+    value: { ...(billingDataMod ? { billingDataMod } : {}), ...(planDataMod ? { planDataMod } : {}) },
+    warnings,
+  }
+}
+
+export function parsePublicNote(publicNote: string): PublicNoteData | null {
+  return parsePublicNoteWithDiagnostics(publicNote).value
+}
+
 // Function to handle public_note with sessionStorage
-export function handlePublicNote(serverId: number, publicNote: string): string {
-  const storageKey = `server_${serverId}_public_note`
+export function handlePublicNote(serverUuid: string, publicNote: string): string {
+  // Worker 中没有 sessionStorage
+  if (typeof sessionStorage === "undefined") return publicNote || ""
+  const storageKey = `server_${serverUuid}_public_note`
   const storedNote = sessionStorage.getItem(storageKey)
 
   if (!publicNote && storedNote) {
@@ -332,8 +387,6 @@ export const uuidToNumber = (uuid: string): number => {
   return hash >>> 0
 }
 
-let km_servers_cache: any[] = []
-
 const countryFlagToCode = (flag: string): string => {
   return [...flag].map((c) => String.fromCharCode(c.codePointAt(0)! - 127397 + 32)).join("")
 }
@@ -456,16 +509,12 @@ function buildPublicNoteFromNode(server: any, existingPublicNote?: string): stri
   }
 }
 
-export const komariToNezhaWebsocketResponse = (data: any): NezhaWebsocketResponse => {
-  if (km_servers_cache.length === 0) {
-    getKomariNodes()
-      .then((res) => {
-        km_servers_cache = Object.values(res || {})
-      })
-  }
+// 按节点列表把状态转换为 Nezha 格式；不发起请求，可在 Worker 中调用
+export const komariToNezhaWebsocketResponse = (data: any, nodes: AggregatedKomariNodes): NezhaWebsocketResponse => {
+  const km_servers_cache = Object.entries(nodes)
 
   // 如果还没有缓存，先按 data 渲染，避免首次为空
-  if (!km_servers_cache || km_servers_cache.length === 0) {
+  if (km_servers_cache.length === 0) {
     return {
       now: Date.now(),
       servers: [],
@@ -523,14 +572,14 @@ export const komariToNezhaWebsocketResponse = (data: any): NezhaWebsocketRespons
     // }
   }
 
-  // 按缓存列表展示；如果 data 中没有该 uuid，则视为离线
+  // 按缓存列表展示（键为服务器键）；如果 data 中没有该服务器，则视为离线
   const statusMap = new Map<string, any>(Object.entries(data || {}))
-  const servers: any[] = km_servers_cache.map((server: any) => {
-    const uuid = server.uuid
-    const status = statusMap.get(uuid)
-    // 已处理的 uuid 从映射中移除，避免后续增补阶段重复添加
-    if (statusMap.has(uuid)) {
-      statusMap.delete(uuid)
+  const ids = assignServerIds([...km_servers_cache.map(([key]) => key), ...statusMap.keys()])
+  const servers: any[] = km_servers_cache.map(([key, server]: [string, any]) => {
+    const status = statusMap.get(key)
+    // 已处理的服务器从映射中移除，避免后续增补阶段重复添加
+    if (statusMap.has(key)) {
+      statusMap.delete(key)
     }
 
     const bootTime = status ? new Date(status.time).getTime() / 1000 - (status.uptime || 0) : 0
@@ -589,19 +638,22 @@ export const komariToNezhaWebsocketResponse = (data: any): NezhaWebsocketRespons
         }
 
     return {
-      id: uuidToNumber(uuid),
+      id: ids.get(key)!,
+      uuid: key,
       name: server.name,
       public_note: buildPublicNoteFromNode(server, server.public_remark || ""),
       last_active: status ? status.time : "0000-00-00T00:00:00Z",
       country_code: countryFlagToCode(server.region),
       display_index: -server.weight || 0,
+      backend: server.backend,
       host,
       state,
+      komari: { node: server, status },
     }
   })
 
   // 追加那些仅在 data 里出现但缓存里没有的新服务器（保证“出现过的都显示”）
-  for (const [uuid, status] of statusMap.entries()) {
+  for (const [key, status] of statusMap.entries()) {
     const host = {
       platform: status.os || "",
       platform_version: status.kernel_version || "",
@@ -636,14 +688,17 @@ export const komariToNezhaWebsocketResponse = (data: any): NezhaWebsocketRespons
     }
 
     servers.push({
-      id: uuidToNumber(uuid),
-      name: status.name || uuid,
+      id: ids.get(key)!,
+      uuid: key,
+      name: status.name || key,
       public_note: "",
       last_active: status.time,
       country_code: status.region ? countryFlagToCode(status.region) : "",
       display_index: 0,
+      backend: status.backend,
       host,
       state,
+      komari: { status },
     })
   }
 
@@ -653,39 +708,113 @@ export const komariToNezhaWebsocketResponse = (data: any): NezhaWebsocketRespons
   }
 }
 
-let __nodesCache__ : any = null
-let __nodesCachePromise__: Promise<any> | null = null
-export const getKomariNodes = async () => {
-  // 命中缓存，直接返回
-  if (__nodesCache__) {
-    return __nodesCache__
+// 节点元数据变化不频繁，缓存 2 分钟
+const NODES_CACHE_TTL = 2 * 60 * 1000
+
+// 服务器键：主后端沿用 uuid（保持已有链接与 ID 不变），其他后端加上名称前缀
+export const serverKey = (backend: KomariBackend, uuid: string) => (backend.primary ? uuid : `${backend.name}/${uuid}`)
+
+// 服务器页面地址，以服务器键作为稳定标识
+export const serverPath = (server: NezhaServer) => `/server/${encodeURIComponent(server.uuid)}`
+
+// 已分配的数字 ID，在当前页面（或 Worker）生命周期内保持不变
+const assignedIds = new Map<string, number>()
+const idOwners = new Map<number, string>()
+
+/**
+ * 为服务器键分配数字 ID：默认取键的哈希，与其他服务器冲突时给出警告并顺延到下一个空闲值，
+ * 避免两台服务器因 ID 相同被合并显示
+ */
+const assignServerIds = (keys: string[]): Map<string, number> => {
+  // 新出现的键按字典序分配，保证同一批节点得到相同的结果
+  for (const key of [...new Set(keys)].filter((key) => !assignedIds.has(key)).sort()) {
+    let id = uuidToNumber(key)
+    while (idOwners.has(id)) {
+      console.warn(`服务器 ID 冲突: ${idOwners.get(id)} 与 ${key}，已为后者改用其他 ID`)
+      id = (id + 1) >>> 0
+    }
+    assignedIds.set(key, id)
+    idOwners.set(id, key)
   }
+  return assignedIds
+}
 
-  // 若已有进行中的请求，复用同一个 Promise，避免并发重复请求
-  if (__nodesCachePromise__) {
-    return __nodesCachePromise__
+// 合并各后端的结果并标注来源
+const mergeBackendMaps = <T extends object>(
+  entries: Array<[KomariBackend, Record<string, T> | undefined]>,
+): Record<string, T & { backend: string }> => {
+  const merged: Record<string, T & { backend: string }> = {}
+  for (const [backend, map] of entries) {
+    for (const [uuid, value] of Object.entries(map || {})) {
+      const key = serverKey(backend, uuid)
+      merged[key] = { ...value, backend: backend.name }
+    }
   }
+  return merged
+}
 
-  // 建立并发锁（in-flight Promise）
-  __nodesCachePromise__ = SharedClient()
-    .call("common:getNodes")
-    .then((res) => {
-      __nodesCache__ = res
-      // 设置 TTL 到期清理
-      setTimeout(() => {
-        __nodesCache__ = null
-      }, 2 * 60 * 1000) // 2 minutes cache
-      return __nodesCache__
-    })
-    .catch((err) => {
-      // 失败不污染缓存，下次可重试
-      __nodesCache__ = null
-      throw err
-    })
-    .finally(() => {
-      // 请求结束，释放并发锁
-      __nodesCachePromise__ = null
-    })
+// 调用失败的后端
+export interface BackendFailure {
+  /** 后端名称 */
+  backend: string
+  error: unknown
+}
 
-  return __nodesCachePromise__
-}
\ No newline at end of file
+// 并发调用所有后端，返回合并后的结果与失败的后端；失败时记录日志（调用方已取消时不记录），全部失败才抛出
+const settleAllBackends = async <T extends object>(
+  method: string,
+  load: (backend: KomariBackend) => Promise<Record<string, T>>,
+  signal?: AbortSignal,
+): Promise<{ data: Record<string, T & { backend: string }>; failures: BackendFailure[] }> => {
+  const backends = getBackends()
+  const results = await Promise.allSettled(backends.map(load))
+  const entries: Array<[KomariBackend, Record<string, T>]> = []
+  const failures: BackendFailure[] = []
+  results.forEach((result, index) => {
+    if (result.status === "fulfilled") {
+      entries.push([backends[index], result.value])
+      return
+    }
+    failures.push({ backend: backends[index].name, error: result.reason })
+    if (!signal?.aborted) {
+      console.error(`后端 ${backends[index].name} 调用 ${method} 失败:`, result.reason)
+    }
+  })
+  if (entries.length === 0) {
+    throw (results[0] as PromiseRejectedResult).reason
+  }
+  return { data: mergeBackendMaps(entries), failures }
+}
+
+// 并发调用所有后端；个别后端失败时只忽略其结果
+const callAllBackends = async <T extends object>(
+  method: string,
+  load: (backend: KomariBackend) => Promise<Record<string, T>>,
+  signal?: AbortSignal,
+): Promise<Record<string, T & { backend: string }>> => (await settleAllBackends(method, load, signal)).data
+
+// 所有后端的节点缓存都已命中或正在请求中
+export const hasKomariNodesCache = () => getBackends().every(({ client }) => client.isCached("common:getNodes"))
+
+// 以外部发起的请求（如首屏批量调用）填充主后端的节点缓存，并发的 getKomariNodes 会复用同一个 Promise
+export const primeKomariNodes = (pending: Promise<KomariNodes>): Promise<KomariNodes> =>
+  SharedClient().setCached("common:getNodes", undefined, pending, NODES_CACHE_TTL)
+
+// 合并所有后端的节点列表；各后端命中缓存直接返回，已有进行中的请求时复用同一个 Promise
+// signal 只取消本次等待，共享的请求仍会完成并写入缓存
+export const getKomariNodes = (signal?: AbortSignal): Promise<AggregatedKomariNodes> =>
+  callAllBackends("common:getNodes", ({ client }) => client.call("common:getNodes", undefined, { cacheTTL: NODES_CACHE_TTL, signal }), signal)
+
+// 强制重新拉取节点列表（如节点增删、手动刷新），刷新期间仍可读取旧的缓存
+export const refreshKomariNodes = (): Promise<AggregatedKomariNodes> =>
+  callAllBackends("common:getNodes", ({ client }) => client.setCached("common:getNodes", undefined, client.call("common:getNodes"), NODES_CACHE_TTL))
+
+// 同步读取各后端最近一次缓存的节点列表（可能已过期）
+export const getCachedKomariNodes = (): AggregatedKomariNodes =>
+  mergeBackendMaps(getBackends().map((backend) => [backend, backend.client.getCached("common:getNodes")]))
+
+// 合并所有后端的最新状态，同时返回失败的后端，其节点不在 status 中
+export const getKomariNodesStatus = async (): Promise<{ status: AggregatedKomariNodesStatus; failures: BackendFailure[] }> => {
+  const { data, failures } = await settleAllBackends("common:getNodesLatestStatus", ({ client }) => client.call("common:getNodesLatestStatus"))
+  return { status: data, failures }
+}
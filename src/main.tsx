@@ -15,8 +15,16 @@ import { WebSocketProvider } from "./context/websocket-provider"
 import { RPC2Provider } from "./hooks/use-rpc2"
 import "./i18n"
 import "./index.css"
+import { isRetryableError } from "./lib/rpc2"
 
-const queryClient = new QueryClient()
+const queryClient = new QueryClient({
+  defaultOptions: {
+    queries: {
+      // 方法不存在、参数错误等不可重试的 RPC 错误直接失败
+      retry: (failureCount, error) => failureCount < 3 && isRetryableError(error),
+    },
+  },
+})
 
 ReactDOM.createRoot(document.getElementById("root")!).render(
   <RPC2Provider>
@@ -1,18 +1,29 @@
+import { RPC2Error } from "@/lib/rpc2"
 import { useTranslation } from "react-i18next"
 
 interface ErrorPageProps {
   code?: string | number
   message?: string
+  error?: Error | null
 }
 
-export default function ErrorPage({ code = "500", message }: ErrorPageProps) {
+export default function ErrorPage({ code = "500", message, error }: ErrorPageProps) {
   const { t } = useTranslation()
 
+  // RPC 错误展示原始错误码及出错的方法与传输方式
+  const rpcError = error instanceof RPC2Error ? error : null
+
   return (
     <div className="flex flex-col items-center justify-center">
       <div className="flex flex-col items-center gap-2">
-        <h1 className="text-4xl font-semibold">{code}</h1>
-        <p className="text-xl text-muted-foreground">{message || t("error.somethingWentWrong")}</p>
+        <h1 className="text-4xl font-semibold">{rpcError ? rpcError.code : code}</h1>
+        <p className="text-xl text-muted-foreground">{message || error?.message || t("error.somethingWentWrong")}</p>
+        {rpcError?.method && (
+          <p className="text-xs text-muted-foreground">
+            {rpcError.method}
+            {rpcError.transport && ` · ${rpcError.transport.toUpperCase()}`}
+          </p>
+        )}
       </div>
     </div>
   )
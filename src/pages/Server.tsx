@@ -9,26 +9,30 @@ import { Label } from "@/components/ui/label"
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { SORT_ORDERS, SORT_TYPES } from "@/context/sort-context"
+import { useFleetTotals, useServerList } from "@/hooks/use-fleet"
 import { useSort } from "@/hooks/use-sort"
 import { useStatus } from "@/hooks/use-status"
 import { useWebSocketContext } from "@/hooks/use-websocket-context"
-import { fetchServerGroup } from "@/lib/nezha-api"
+import { FleetEntry, fleetStore } from "@/lib/fleet-store"
+import { fetchServerGroup, fetchSetting } from "@/lib/nezha-api"
 import { cn, formatNezhaInfo } from "@/lib/utils"
-import { NezhaWebsocketResponse } from "@/types/nezha-api"
 import { ServerGroup } from "@/types/nezha-api"
 import { ArrowDownIcon, ArrowUpIcon, ArrowsUpDownIcon, ChartBarSquareIcon, MapIcon, ViewColumnsIcon } from "@heroicons/react/20/solid"
 import { useQuery } from "@tanstack/react-query"
 import { useEffect, useRef, useState } from "react"
-import { useTranslation } from "react-i18next"
 
 export default function Servers() {
-  const { t } = useTranslation()
   const { sortType, sortOrder, setSortOrder, setSortType } = useSort()
   const { data: groupData } = useQuery({
     queryKey: ["server-group"],
-    queryFn: () => fetchServerGroup(),
+    queryFn: ({ signal }) => fetchServerGroup(signal),
   })
-  const { lastMessage, connected } = useWebSocketContext()
+  const { data: settingData } = useQuery({
+    queryKey: ["setting"],
+    queryFn: ({ signal }) => fetchSetting(signal),
+  })
+  const debug = settingData?.data?.config?.debug ?? false
+  const { connected, stale } = useWebSocketContext()
   const { status } = useStatus()
   const [showServices, setShowServices] = useState<string>("0")
   const [showMap, setShowMap] = useState<string>("0")
@@ -100,18 +104,28 @@ export default function Servers() {
     restoreScrollPosition()
   }, [])
 
-  const nezhaWsData = lastMessage ? (JSON.parse(lastMessage.data) as NezhaWebsocketResponse) : null
+  const inCurrentGroup = (entry: FleetEntry) => {
+    if (currentGroup === "All") return true
+    const group = groupData?.data?.find(
+      (g: ServerGroup) => g.group.name === currentGroup && Array.isArray(g.servers) && g.servers.includes(entry.server.uuid),
+    )
+    return !!group
+  }
+
+  const allServers = useServerList()
+  const groupServers = useServerList(inCurrentGroup)
+  const { total: totalServers, online: onlineServers, offline: offlineServers, up, down, upSpeed, downSpeed } = useFleetTotals(inCurrentGroup)
 
   const groupTabs = [
     "All",
     ...(groupData?.data
       ?.filter((item: ServerGroup) => {
-        return Array.isArray(item.servers) && item.servers.some((serverId) => nezhaWsData?.servers?.some((server) => server.id === serverId))
+        return Array.isArray(item.servers) && item.servers.some((uuid) => allServers.some((entry) => entry.server.uuid === uuid))
       })
       ?.map((item: ServerGroup) => item.group.name) || []),
   ]
 
-  if (!connected && !lastMessage) {
+  if (!connected && !fleetStore.ready) {
     return (
       <div className="flex flex-col items-center min-h-96 justify-center ">
         <div className="font-semibold flex items-center gap-2 text-sm">
@@ -122,56 +136,14 @@ export default function Servers() {
     )
   }
 
-  if (!nezhaWsData) {
-    return (
-      <div className="flex flex-col items-center justify-center ">
-        <p className="font-semibold text-sm">{t("info.processing")}</p>
-      </div>
-    )
-  }
-
-  let filteredServers =
-    nezhaWsData?.servers?.filter((server) => {
-      if (currentGroup === "All") return true
-      const group = groupData?.data?.find(
-        (g: ServerGroup) => g.group.name === currentGroup && Array.isArray(g.servers) && g.servers.includes(server.id),
-      )
-      return !!group
-    }) || []
-
-  const totalServers = filteredServers.length || 0
-  const onlineServers = filteredServers.filter((server) => formatNezhaInfo(nezhaWsData.now, server).online)?.length || 0
-  const offlineServers = filteredServers.filter((server) => !formatNezhaInfo(nezhaWsData.now, server).online)?.length || 0
-  const up =
-    filteredServers.reduce(
-      (total, server) => (formatNezhaInfo(nezhaWsData.now, server).online ? total + (server.state?.net_out_transfer ?? 0) : total),
-      0,
-    ) || 0
-  const down =
-    filteredServers.reduce(
-      (total, server) => (formatNezhaInfo(nezhaWsData.now, server).online ? total + (server.state?.net_in_transfer ?? 0) : total),
-      0,
-    ) || 0
-
-  const upSpeed =
-    filteredServers.reduce(
-      (total, server) => (formatNezhaInfo(nezhaWsData.now, server).online ? total + (server.state?.net_out_speed ?? 0) : total),
-      0,
-    ) || 0
-  const downSpeed =
-    filteredServers.reduce(
-      (total, server) => (formatNezhaInfo(nezhaWsData.now, server).online ? total + (server.state?.net_in_speed ?? 0) : total),
-      0,
-    ) || 0
-
-  filteredServers =
-    status === "all"
-      ? filteredServers
-      : filteredServers.filter((server) => [status].includes(formatNezhaInfo(nezhaWsData.now, server).online ? "online" : "offline"))
+  let filteredServers = status === "all" ? groupServers : groupServers.filter((entry) => [status].includes(entry.online ? "online" : "offline"))
 
-  filteredServers = filteredServers.sort((a, b) => {
-    const serverAInfo = formatNezhaInfo(nezhaWsData.now, a)
-    const serverBInfo = formatNezhaInfo(nezhaWsData.now, b)
+  // 排序不应修改订阅得到的列表
+  filteredServers = [...filteredServers].sort((entryA, entryB) => {
+    const a = entryA.server
+    const b = entryB.server
+    const serverAInfo = formatNezhaInfo(entryA.now, a)
+    const serverBInfo = formatNezhaInfo(entryB.now, b)
 
     if (sortType !== "name") {
       // 仅在非 "name" 排序时，先按在线状态排序
@@ -200,10 +172,10 @@ export default function Servers() {
         comparison = (a.state?.cpu ?? 0) - (b.state?.cpu ?? 0)
         break
       case "mem":
-        comparison = (formatNezhaInfo(nezhaWsData.now, a).mem ?? 0) - (formatNezhaInfo(nezhaWsData.now, b).mem ?? 0)
+        comparison = (serverAInfo.mem ?? 0) - (serverBInfo.mem ?? 0)
         break
       case "disk":
-        comparison = (formatNezhaInfo(nezhaWsData.now, a).disk ?? 0) - (formatNezhaInfo(nezhaWsData.now, b).disk ?? 0)
+        comparison = (serverAInfo.disk ?? 0) - (serverBInfo.disk ?? 0)
         break
       case "up":
         comparison = (a.state?.net_out_speed ?? 0) - (b.state?.net_out_speed ?? 0)
@@ -364,19 +336,19 @@ export default function Servers() {
           </PopoverContent>
         </Popover>
       </div>
-      {showMap === "1" && <GlobalMap now={nezhaWsData.now} serverList={nezhaWsData?.servers || []} />}
-      {showServices === "1" && <ServiceTracker serverList={filteredServers} />}
+      {showMap === "1" && <GlobalMap now={fleetStore.now} serverList={allServers.map((entry) => entry.server)} />}
+      {showServices === "1" && <ServiceTracker serverList={filteredServers.map((entry) => entry.server)} />}
       {inline === "1" && (
         <section ref={containerRef} className="flex flex-col gap-2 overflow-x-scroll scrollbar-hidden mt-6 server-inline-list">
-          {filteredServers.map((serverInfo) => (
-            <ServerCardInline now={nezhaWsData.now} key={serverInfo.id} serverInfo={serverInfo} />
+          {filteredServers.map(({ now, server }) => (
+            <ServerCardInline now={now} key={server.id} serverInfo={server} stale={stale} debug={debug} />
           ))}
         </section>
       )}
       {inline === "0" && (
         <section ref={containerRef} className="grid grid-cols-1 gap-2 md:grid-cols-2 mt-6 server-card-list">
-          {filteredServers.map((serverInfo) => (
-            <ServerCard now={nezhaWsData.now} key={serverInfo.id} serverInfo={serverInfo} />
+          {filteredServers.map(({ now, server }) => (
+            <ServerCard now={now} key={server.id} serverInfo={server} stale={stale} debug={debug} />
           ))}
         </section>
       )}
@@ -3,6 +3,8 @@ import ServerDetailChart from "@/components/ServerDetailChart"
 import ServerDetailOverview from "@/components/ServerDetailOverview"
 import TabSwitch from "@/components/TabSwitch"
 import { Separator } from "@/components/ui/separator"
+import { useServerByUuid } from "@/hooks/use-fleet"
+import { serverPath } from "@/lib/utils"
 import { useEffect, useState } from "react"
 import { useNavigate, useParams } from "react-router-dom"
 
@@ -16,16 +18,24 @@ export default function ServerDetail() {
   const tabs = ["Detail", "Network"]
   const [currentTab, setCurrentTab] = useState(tabs[0])
 
-  const { id: server_id } = useParams()
+  const { uuid: server_uuid = "" } = useParams()
+  const entry = useServerByUuid(server_uuid)
 
-  if (!server_id) {
+  // 旧的数字 ID 链接解析到服务器后，替换为以服务器键表示的地址
+  useEffect(() => {
+    if (entry && entry.server.uuid !== server_uuid) {
+      navigate(serverPath(entry.server), { replace: true })
+    }
+  }, [entry, server_uuid])
+
+  if (!server_uuid) {
     navigate("/404")
     return null
   }
 
   return (
     <div className="mx-auto w-full max-w-5xl px-0 flex flex-col gap-4 server-info">
-      <ServerDetailOverview server_id={server_id} />
+      <ServerDetailOverview server_uuid={server_uuid} />
       <section className="flex items-center my-2 w-full">
         <Separator className="flex-1" />
         <div className="flex justify-center w-full max-w-[200px]">
@@ -34,10 +44,10 @@ export default function ServerDetail() {
         <Separator className="flex-1" />
       </section>
       <div style={{ display: currentTab === tabs[0] ? "block" : "none" }}>
-        <ServerDetailChart server_id={server_id} />
+        <ServerDetailChart server_uuid={server_uuid} />
       </div>
       <div style={{ display: currentTab === tabs[1] ? "block" : "none" }}>
-        <NetworkChart server_id={Number(server_id)} show={currentTab === tabs[1]} />
+        <NetworkChart server_uuid={server_uuid} show={currentTab === tabs[1]} />
       </div>
     </div>
   )
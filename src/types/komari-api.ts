@@ -0,0 +1,174 @@
+// Komari RPC2 (common:*) 接口的请求与响应类型
+
+export interface KomariNode {
+  uuid: string
+  name: string
+  cpu_name: string
+  virtualization: string
+  arch: string
+  cpu_cores: number
+  os: string
+  kernel_version: string
+  gpu_name: string
+  region: string
+  mem_total: number
+  swap_total: number
+  disk_total: number
+  weight: number
+  price: number
+  billing_cycle: number
+  auto_renewal: boolean
+  currency: string
+  expired_at: string
+  group: string
+  tags: string
+  public_remark: string
+  hidden: boolean
+  traffic_limit: number
+  traffic_limit_type: string
+  ipv4?: string
+  ipv6?: string
+  created_at: string
+  updated_at: string
+}
+
+// 以 uuid 为键
+export type KomariNodes = Record<string, KomariNode>
+
+export interface KomariNodeStatus {
+  client: string
+  time: string
+  cpu: number
+  gpu: number
+  ram: number
+  ram_total: number
+  swap: number
+  swap_total: number
+  load: number
+  load5: number
+  load15: number
+  temp: number
+  disk: number
+  disk_total: number
+  net_in: number
+  net_out: number
+  net_total_up: number
+  net_total_down: number
+  process: number
+  connections: number
+  connections_udp: number
+  online: boolean
+  uptime: number
+  // 以下字段仅在节点元数据缺失时作为回退使用
+  name?: string
+  os?: string
+  kernel_version?: string
+  cpu_name?: string
+  gpu_name?: string
+  arch?: string
+  region?: string
+}
+
+// 以 uuid 为键
+export type KomariNodesStatus = Record<string, KomariNodeStatus>
+
+// 多后端合并后的节点与状态，带来源后端名称
+export type AggregatedKomariNode = KomariNode & { backend: string }
+export type AggregatedKomariNodeStatus = KomariNodeStatus & { backend: string }
+
+// 以服务器键为键：主后端为 uuid，其他后端为 "后端名/uuid"，避免不同后端间 uuid 冲突
+export type AggregatedKomariNodes = Record<string, AggregatedKomariNode>
+export type AggregatedKomariNodesStatus = Record<string, AggregatedKomariNodeStatus>
+
+export interface KomariRecordsParams {
+  type?: "load" | "ping"
+  uuid?: string
+  hours?: number
+  start?: string
+  end?: string
+  load_type?: string
+  maxCount?: number
+}
+
+export interface KomariPingRecord {
+  task_id: number
+  time: string
+  value: number
+  client?: string
+  name?: string
+}
+
+export interface KomariPingTask {
+  id: number
+  name: string
+  interval: number
+  loss?: number
+}
+
+export interface KomariRecordsResponse {
+  count?: number
+  records: KomariPingRecord[]
+  tasks?: KomariPingTask[]
+  from?: string
+  to?: string
+}
+
+export interface KomariPublicInfo {
+  sitename: string
+  description: string
+  custom_head: string
+  custom_body: string
+  theme: string
+  theme_settings: Record<string, unknown> | null
+  private_site: boolean
+  allow_cors: boolean
+  disable_password_login: boolean
+  oauth_enable: boolean
+  oauth_provider: string | null
+  ping_record_preserve_time: number
+  record_enabled: boolean
+  record_preserve_time: number
+}
+
+export interface KomariVersion {
+  version: string
+  hash: string
+}
+
+export interface KomariMe {
+  logged_in: boolean
+  username: string
+  uuid: string
+  sso_id?: string
+  sso_type?: string
+  "2fa_enabled"?: boolean
+}
+
+// 方法注册表：方法名 → 请求参数 / 响应结果
+export type KomariMethods = {
+  "common:getNodes": {
+    params: undefined
+    result: KomariNodes
+  }
+  "common:getNodesLatestStatus": {
+    params: { uuid?: string; uuids?: string[] } | undefined
+    result: KomariNodesStatus
+  }
+  "common:getRecords": {
+    params: KomariRecordsParams
+    // 旧版本直接返回 records 数组
+    result: KomariRecordsResponse | KomariPingRecord[]
+  }
+  "common:getPublicInfo": {
+    params: undefined
+    result: KomariPublicInfo
+  }
+  "common:getVersion": {
+    params: undefined
+    result: KomariVersion
+  }
+  "common:getMe": {
+    params: undefined
+    result: KomariMe
+  }
+}
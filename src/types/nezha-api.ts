@@ -1,3 +1,5 @@
+import { AggregatedKomariNode, AggregatedKomariNodeStatus } from "./komari-api"
+
 export interface NezhaWebsocketResponse {
   now: number
   servers: NezhaServer[]
@@ -5,6 +7,8 @@ export interface NezhaWebsocketResponse {
 
 export interface NezhaServer {
   id: number
+  // 服务器键：主后端为 Komari UUID，其他后端为 “后端名/UUID”，作为页面地址等处的稳定标识
+  uuid: string
   name: string
   public_note: string
   last_active: string
@@ -12,6 +16,17 @@ export interface NezhaServer {
   host: NezhaServerHost
   state: NezhaServerStatus
   display_index?: number
+  // 来源 Komari 后端名称
+  backend?: string
+  // 未经转换的 Komari 数据，用于读取 Nezha 模型中没有的字段
+  komari: NezhaServerKomari
+}
+
+export interface NezhaServerKomari {
+  /** 节点元数据，仅出现在状态数据中的新节点没有 */
+  node?: AggregatedKomariNode
+  /** 最新状态，离线时没有 */
+  status?: AggregatedKomariNodeStatus
 }
 
 export interface NezhaServerHost {
@@ -64,7 +79,8 @@ export interface ServerGroup {
     updated_at: string
     name: string
   }
-  servers: number[]
+  // 成员的服务器键
+  servers: string[]
 }
 
 export interface LoginUserResponse {
@@ -150,6 +166,8 @@ type SettingConfig = {
   user_template: string
   admin_template: string
   custom_code: string
+  // Komari 后台配置的主题设置
+  theme_settings: Record<string, unknown>
 }
 
 export interface SettingResponse {